@@ -50,3 +50,902 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 -- Verification queries (run after migration):
 -- SELECT COUNT(*) FROM characters WHERE user_id IS NULL; -- Should be 0
 -- SELECT COUNT(*) FROM characters GROUP BY user_id; -- View distribution
+
+-- Step 5: Spaced repetition (SM-2) scheduling columns
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS ease_factor NUMERIC NOT NULL DEFAULT 2.5;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ;
+
+-- Seed scheduling state from the legacy score/attempts/correct_count counters:
+-- * never-attempted cards stay "new" (due_at NULL)
+-- * ease starts at 2.5, loses 0.15 per wrong answer and gains 0.05 per right one (1.3 - 2.8)
+-- * score approximates consecutive successes, mapped onto the SM-2 interval ladder (1, 6, 6*EF, ...)
+UPDATE characters
+SET
+  ease_factor = GREATEST(1.3, LEAST(2.8, 2.5 - 0.15 * (attempts - correct_count) + 0.05 * correct_count)),
+  repetitions = score
+WHERE attempts > 0;
+
+UPDATE characters
+SET interval_days = CASE
+    WHEN repetitions = 0 THEN 1
+    WHEN repetitions = 1 THEN 1
+    WHEN repetitions = 2 THEN 6
+    ELSE LEAST(365, ROUND(6 * POWER(ease_factor, repetitions - 2)))::INTEGER
+  END
+WHERE attempts > 0;
+
+UPDATE characters
+SET due_at = last_reviewed + make_interval(days => interval_days)
+WHERE attempts > 0;
+
+CREATE INDEX IF NOT EXISTS characters_user_due_idx ON characters (user_id, due_at);
+
+-- Step 6: FSRS memory state and per-user scheduler settings
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS stability DOUBLE PRECISION;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS difficulty DOUBLE PRECISION;
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  algorithm TEXT NOT NULL DEFAULT 'sm2' CHECK (algorithm IN ('sm2', 'fsrs')),
+  desired_retention NUMERIC NOT NULL DEFAULT 0.9 CHECK (desired_retention BETWEEN 0.7 AND 0.99),
+  fsrs_weights DOUBLE PRECISION[],
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own settings"
+  ON user_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own settings"
+  ON user_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings"
+  ON user_settings FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own settings"
+  ON user_settings FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 7: Per-answer review log
+CREATE TABLE IF NOT EXISTS reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  grade SMALLINT NOT NULL CHECK (grade BETWEEN 1 AND 4), -- 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+  response_time_ms INTEGER,
+  mode TEXT NOT NULL DEFAULT 'flashcard',
+  session_id UUID
+);
+
+CREATE INDEX IF NOT EXISTS reviews_user_reviewed_at_idx ON reviews (user_id, reviewed_at);
+CREATE INDEX IF NOT EXISTS reviews_character_idx ON reviews (character_id, reviewed_at);
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reviews"
+  ON reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reviews"
+  ON reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reviews"
+  ON reviews FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews"
+  ON reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 8: Daily new card and review limits
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS new_cards_per_day INTEGER NOT NULL DEFAULT 10 CHECK (new_cards_per_day >= 0);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS max_reviews_per_day INTEGER NOT NULL DEFAULT 100 CHECK (max_reviews_per_day >= 0);
+
+-- Step 9: Intraday learning and relearning steps (minutes)
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS relearning_steps INTEGER[] NOT NULL DEFAULT '{10}';
+
+-- Step 10: Lapse tracking, leeches and suspension
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS is_leech BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS suspended BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill lapses from the review log: "Again" on a card that had been answered before
+UPDATE characters c
+SET lapses = sub.lapses
+FROM (
+  SELECT r.character_id, COUNT(*) AS lapses
+  FROM reviews r
+  WHERE r.grade = 1
+    AND EXISTS (
+      SELECT 1 FROM reviews prev
+      WHERE prev.character_id = r.character_id AND prev.reviewed_at < r.reviewed_at
+    )
+  GROUP BY r.character_id
+) sub
+WHERE c.id = sub.character_id;
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS leech_threshold INTEGER NOT NULL DEFAULT 8 CHECK (leech_threshold > 0);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS leech_action TEXT NOT NULL DEFAULT 'tag' CHECK (leech_action IN ('tag', 'suspend'));
+
+UPDATE characters c
+SET is_leech = true
+WHERE c.lapses >= COALESCE(
+  (SELECT us.leech_threshold FROM user_settings us WHERE us.user_id = c.user_id),
+  8
+);
+
+-- Step 11: Burying cards until a later time
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS buried_until TIMESTAMPTZ;
+
+-- Step 12: Unfinished study session, synced for resuming on another device
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS sync_session BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS study_sessions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  session TEXT NOT NULL, -- JSON-serialised StudySession
+  saved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE study_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own study session"
+  ON study_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own study session"
+  ON study_sessions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own study session"
+  ON study_sessions FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own study session"
+  ON study_sessions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 13: Remembered session setup choices
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS session_size INTEGER NOT NULL DEFAULT 20;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS session_order TEXT NOT NULL DEFAULT 'priority'
+  CHECK (session_order IN ('priority', 'random', 'oldest-reviewed', 'newest-added'));
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS card_direction TEXT NOT NULL DEFAULT 'chinese-meaning';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS study_mode TEXT NOT NULL DEFAULT 'flashcard';
+
+-- Step 14: Answer latency
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS flip_time_ms INTEGER; -- time from showing the card to flipping it
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS slow_recall_seconds REAL NOT NULL DEFAULT 10 CHECK (slow_recall_seconds >= 0);
+
+-- Step 15: Atomic answer recording
+-- Counterpart to migrate_orphaned_characters (Step 4) for the study loop: applies one
+-- answer to a character and logs it in the review table in a single transaction.
+-- The character row is locked while it is updated, so answers from several tabs or
+-- devices cannot overwrite each other's counters. The new schedule is computed in the
+-- browser (src/lib/scheduler.ts) from the state the client last saw; if the card was
+-- reviewed since then (last_reviewed differs from expected_last_reviewed) nothing is
+-- written and the current row is returned with conflict = true, so the client can
+-- recompute and call again. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION record_answer(
+  target_character_id UUID,
+  answer_grade SMALLINT,
+  answered_at TIMESTAMPTZ,
+  update_schedule BOOLEAN,
+  expected_last_reviewed TIMESTAMPTZ DEFAULT NULL,
+  new_ease_factor NUMERIC DEFAULT NULL,
+  new_interval_days INTEGER DEFAULT NULL,
+  new_repetitions INTEGER DEFAULT NULL,
+  new_due_at TIMESTAMPTZ DEFAULT NULL,
+  new_stability DOUBLE PRECISION DEFAULT NULL,
+  new_difficulty DOUBLE PRECISION DEFAULT NULL,
+  answer_response_time_ms INTEGER DEFAULT NULL,
+  answer_flip_time_ms INTEGER DEFAULT NULL,
+  answer_mode TEXT DEFAULT 'flashcard',
+  answer_session_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_row characters%ROWTYPE;
+  updated_row characters%ROWTYPE;
+  is_correct BOOLEAN := answer_grade > 1;
+  new_lapses INTEGER;
+  becomes_leech BOOLEAN;
+  user_leech_threshold INTEGER;
+  user_leech_action TEXT;
+  new_review_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM characters
+  WHERE id = target_character_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Character % not found', target_character_id USING ERRCODE = 'P0002';
+  END IF;
+
+  updated_row := current_row;
+
+  -- Repeats within the session's learning steps are only logged
+  IF update_schedule THEN
+    -- Browser timestamps carry milliseconds, stored ones may carry microseconds
+    IF expected_last_reviewed IS NOT NULL
+      AND date_trunc('milliseconds', current_row.last_reviewed) <> date_trunc('milliseconds', expected_last_reviewed) THEN
+      RETURN json_build_object('conflict', true, 'previous', row_to_json(current_row));
+    END IF;
+
+    SELECT leech_threshold, leech_action INTO user_leech_threshold, user_leech_action
+    FROM user_settings
+    WHERE user_id = current_row.user_id;
+
+    -- Forgetting a card that was already learned is a lapse; too many make it a leech
+    new_lapses := current_row.lapses
+      + CASE WHEN NOT is_correct AND current_row.due_at IS NOT NULL THEN 1 ELSE 0 END;
+    becomes_leech := NOT current_row.is_leech AND new_lapses >= COALESCE(user_leech_threshold, 8);
+
+    UPDATE characters
+    SET
+      attempts = current_row.attempts + 1,
+      correct_count = current_row.correct_count + CASE WHEN is_correct THEN 1 ELSE 0 END,
+      score = CASE WHEN is_correct THEN current_row.score + 1 ELSE GREATEST(0, current_row.score - 1) END,
+      lapses = new_lapses,
+      is_leech = current_row.is_leech OR becomes_leech,
+      suspended = current_row.suspended OR (becomes_leech AND COALESCE(user_leech_action, 'tag') = 'suspend'),
+      ease_factor = new_ease_factor,
+      interval_days = new_interval_days,
+      repetitions = new_repetitions,
+      due_at = new_due_at,
+      stability = new_stability,
+      difficulty = new_difficulty,
+      last_reviewed = answered_at
+    WHERE id = target_character_id
+    RETURNING * INTO updated_row;
+  END IF;
+
+  INSERT INTO reviews (user_id, character_id, reviewed_at, grade, response_time_ms, flip_time_ms, mode, session_id)
+  VALUES (
+    current_row.user_id,
+    target_character_id,
+    answered_at,
+    answer_grade,
+    answer_response_time_ms,
+    answer_flip_time_ms,
+    answer_mode,
+    answer_session_id
+  )
+  RETURNING id INTO new_review_id;
+
+  RETURN json_build_object(
+    'conflict', false,
+    'previous', row_to_json(current_row),
+    'updated', row_to_json(updated_row),
+    'review_id', new_review_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Step 16: Per-category option presets
+CREATE TABLE IF NOT EXISTS deck_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  new_cards_per_day INTEGER NOT NULL DEFAULT 10 CHECK (new_cards_per_day >= 0),
+  max_reviews_per_day INTEGER NOT NULL DEFAULT 100 CHECK (max_reviews_per_day >= 0),
+  learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}',
+  desired_retention REAL NOT NULL DEFAULT 0.9 CHECK (desired_retention BETWEEN 0.7 AND 0.99),
+  leech_threshold INTEGER NOT NULL DEFAULT 8 CHECK (leech_threshold >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Categories are plain text on characters, so presets are attached by category name
+CREATE TABLE IF NOT EXISTS category_presets (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  preset_id UUID NOT NULL REFERENCES deck_presets(id) ON DELETE CASCADE,
+  PRIMARY KEY (user_id, category)
+);
+
+ALTER TABLE deck_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own presets"
+  ON deck_presets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own presets"
+  ON deck_presets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own presets"
+  ON deck_presets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own presets"
+  ON deck_presets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own preset assignments"
+  ON category_presets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own preset assignments"
+  ON category_presets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own preset assignments"
+  ON category_presets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own preset assignments"
+  ON category_presets FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- record_answer (Step 15) again, now taking the leech threshold from the card's preset.
+-- Daily limits, learning steps and retention are applied in the browser.
+CREATE OR REPLACE FUNCTION record_answer(
+  target_character_id UUID,
+  answer_grade SMALLINT,
+  answered_at TIMESTAMPTZ,
+  update_schedule BOOLEAN,
+  expected_last_reviewed TIMESTAMPTZ DEFAULT NULL,
+  new_ease_factor NUMERIC DEFAULT NULL,
+  new_interval_days INTEGER DEFAULT NULL,
+  new_repetitions INTEGER DEFAULT NULL,
+  new_due_at TIMESTAMPTZ DEFAULT NULL,
+  new_stability DOUBLE PRECISION DEFAULT NULL,
+  new_difficulty DOUBLE PRECISION DEFAULT NULL,
+  answer_response_time_ms INTEGER DEFAULT NULL,
+  answer_flip_time_ms INTEGER DEFAULT NULL,
+  answer_mode TEXT DEFAULT 'flashcard',
+  answer_session_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_row characters%ROWTYPE;
+  updated_row characters%ROWTYPE;
+  is_correct BOOLEAN := answer_grade > 1;
+  new_lapses INTEGER;
+  becomes_leech BOOLEAN;
+  user_leech_threshold INTEGER;
+  user_leech_action TEXT;
+  preset_leech_threshold INTEGER;
+  new_review_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM characters
+  WHERE id = target_character_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Character % not found', target_character_id USING ERRCODE = 'P0002';
+  END IF;
+
+  updated_row := current_row;
+
+  -- Repeats within the session's learning steps are only logged
+  IF update_schedule THEN
+    -- Browser timestamps carry milliseconds, stored ones may carry microseconds
+    IF expected_last_reviewed IS NOT NULL
+      AND date_trunc('milliseconds', current_row.last_reviewed) <> date_trunc('milliseconds', expected_last_reviewed) THEN
+      RETURN json_build_object('conflict', true, 'previous', row_to_json(current_row));
+    END IF;
+
+    SELECT leech_threshold, leech_action INTO user_leech_threshold, user_leech_action
+    FROM user_settings
+    WHERE user_id = current_row.user_id;
+
+    -- A preset on the card's category overrides the leech threshold
+    SELECT p.leech_threshold INTO preset_leech_threshold
+    FROM category_presets cp
+    JOIN deck_presets p ON p.id = cp.preset_id
+    WHERE cp.user_id = current_row.user_id AND cp.category = current_row.category;
+
+    -- Forgetting a card that was already learned is a lapse; too many make it a leech
+    new_lapses := current_row.lapses
+      + CASE WHEN NOT is_correct AND current_row.due_at IS NOT NULL THEN 1 ELSE 0 END;
+    becomes_leech := NOT current_row.is_leech AND new_lapses >= COALESCE(preset_leech_threshold, user_leech_threshold, 8);
+
+    UPDATE characters
+    SET
+      attempts = current_row.attempts + 1,
+      correct_count = current_row.correct_count + CASE WHEN is_correct THEN 1 ELSE 0 END,
+      score = CASE WHEN is_correct THEN current_row.score + 1 ELSE GREATEST(0, current_row.score - 1) END,
+      lapses = new_lapses,
+      is_leech = current_row.is_leech OR becomes_leech,
+      suspended = current_row.suspended OR (becomes_leech AND COALESCE(user_leech_action, 'tag') = 'suspend'),
+      ease_factor = new_ease_factor,
+      interval_days = new_interval_days,
+      repetitions = new_repetitions,
+      due_at = new_due_at,
+      stability = new_stability,
+      difficulty = new_difficulty,
+      last_reviewed = answered_at
+    WHERE id = target_character_id
+    RETURNING * INTO updated_row;
+  END IF;
+
+  INSERT INTO reviews (user_id, character_id, reviewed_at, grade, response_time_ms, flip_time_ms, mode, session_id)
+  VALUES (
+    current_row.user_id,
+    target_character_id,
+    answered_at,
+    answer_grade,
+    answer_response_time_ms,
+    answer_flip_time_ms,
+    answer_mode,
+    answer_session_id
+  )
+  RETURNING id INTO new_review_id;
+
+  RETURN json_build_object(
+    'conflict', false,
+    'previous', row_to_json(current_row),
+    'updated', row_to_json(updated_row),
+    'review_id', new_review_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Step 17: Separate schedules per card direction
+-- The characters table keeps the schedule for the default Chinese → meaning direction;
+-- every other direction a card has been studied in gets a row here.
+CREATE TABLE IF NOT EXISTS card_states (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL,
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ,
+  stability DOUBLE PRECISION,
+  difficulty DOUBLE PRECISION,
+  last_reviewed TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (character_id, direction)
+);
+
+CREATE INDEX IF NOT EXISTS card_states_user_direction_idx ON card_states (user_id, direction, due_at);
+
+ALTER TABLE card_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own card states"
+  ON card_states FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own card states"
+  ON card_states FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own card states"
+  ON card_states FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own card states"
+  ON card_states FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS direction TEXT NOT NULL DEFAULT 'chinese-meaning';
+
+-- record_answer gains the direction answered in. Counters, lapses and leech status stay on
+-- the character; the schedule goes to the character row or to card_states. The rows it
+-- returns are character rows with the direction's schedule laid over them, as the client
+-- shows them.
+DROP FUNCTION IF EXISTS record_answer(
+  UUID, SMALLINT, TIMESTAMPTZ, BOOLEAN, TIMESTAMPTZ, NUMERIC, INTEGER, INTEGER,
+  TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, TEXT, UUID
+);
+
+CREATE OR REPLACE FUNCTION record_answer(
+  target_character_id UUID,
+  answer_grade SMALLINT,
+  answered_at TIMESTAMPTZ,
+  update_schedule BOOLEAN,
+  expected_last_reviewed TIMESTAMPTZ DEFAULT NULL,
+  new_ease_factor NUMERIC DEFAULT NULL,
+  new_interval_days INTEGER DEFAULT NULL,
+  new_repetitions INTEGER DEFAULT NULL,
+  new_due_at TIMESTAMPTZ DEFAULT NULL,
+  new_stability DOUBLE PRECISION DEFAULT NULL,
+  new_difficulty DOUBLE PRECISION DEFAULT NULL,
+  answer_response_time_ms INTEGER DEFAULT NULL,
+  answer_flip_time_ms INTEGER DEFAULT NULL,
+  answer_mode TEXT DEFAULT 'flashcard',
+  answer_session_id UUID DEFAULT NULL,
+  answer_direction TEXT DEFAULT 'chinese-meaning'
+)
+RETURNS JSON AS $$
+DECLARE
+  current_row characters%ROWTYPE;
+  updated_row characters%ROWTYPE;
+  state_row card_states%ROWTYPE;
+  is_default_direction BOOLEAN := answer_direction = 'chinese-meaning';
+  previous_json JSONB;
+  updated_json JSONB;
+  current_last_reviewed TIMESTAMPTZ;
+  current_due_at TIMESTAMPTZ;
+  is_correct BOOLEAN := answer_grade > 1;
+  new_lapses INTEGER;
+  becomes_leech BOOLEAN;
+  user_leech_threshold INTEGER;
+  user_leech_action TEXT;
+  preset_leech_threshold INTEGER;
+  new_review_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM characters
+  WHERE id = target_character_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Character % not found', target_character_id USING ERRCODE = 'P0002';
+  END IF;
+
+  previous_json := to_jsonb(current_row);
+  current_last_reviewed := current_row.last_reviewed;
+  current_due_at := current_row.due_at;
+
+  IF NOT is_default_direction THEN
+    -- Cards never studied in this direction start out new, dated from their creation
+    INSERT INTO card_states (user_id, character_id, direction, last_reviewed)
+    VALUES (current_row.user_id, target_character_id, answer_direction, current_row.created_at)
+    ON CONFLICT (character_id, direction) DO NOTHING;
+
+    SELECT * INTO state_row
+    FROM card_states
+    WHERE character_id = target_character_id AND direction = answer_direction
+    FOR UPDATE;
+
+    previous_json := previous_json || (to_jsonb(state_row) - 'user_id' - 'character_id' - 'direction');
+    current_last_reviewed := state_row.last_reviewed;
+    current_due_at := state_row.due_at;
+  END IF;
+
+  updated_json := previous_json;
+
+  -- Repeats within the session's learning steps are only logged
+  IF update_schedule THEN
+    -- Browser timestamps carry milliseconds, stored ones may carry microseconds
+    IF expected_last_reviewed IS NOT NULL
+      AND date_trunc('milliseconds', current_last_reviewed) <> date_trunc('milliseconds', expected_last_reviewed) THEN
+      RETURN json_build_object('conflict', true, 'previous', previous_json);
+    END IF;
+
+    SELECT leech_threshold, leech_action INTO user_leech_threshold, user_leech_action
+    FROM user_settings
+    WHERE user_id = current_row.user_id;
+
+    -- A preset on the card's category overrides the leech threshold
+    SELECT p.leech_threshold INTO preset_leech_threshold
+    FROM category_presets cp
+    JOIN deck_presets p ON p.id = cp.preset_id
+    WHERE cp.user_id = current_row.user_id AND cp.category = current_row.category;
+
+    -- Forgetting a card that was already learned in this direction is a lapse; too many
+    -- (in any direction) make it a leech
+    new_lapses := current_row.lapses
+      + CASE WHEN NOT is_correct AND current_due_at IS NOT NULL THEN 1 ELSE 0 END;
+    becomes_leech := NOT current_row.is_leech AND new_lapses >= COALESCE(preset_leech_threshold, user_leech_threshold, 8);
+
+    UPDATE characters
+    SET
+      attempts = current_row.attempts + 1,
+      correct_count = current_row.correct_count + CASE WHEN is_correct THEN 1 ELSE 0 END,
+      score = CASE WHEN is_correct THEN current_row.score + 1 ELSE GREATEST(0, current_row.score - 1) END,
+      lapses = new_lapses,
+      is_leech = current_row.is_leech OR becomes_leech,
+      suspended = current_row.suspended OR (becomes_leech AND COALESCE(user_leech_action, 'tag') = 'suspend')
+    WHERE id = target_character_id
+    RETURNING * INTO updated_row;
+
+    IF is_default_direction THEN
+      UPDATE characters
+      SET
+        ease_factor = new_ease_factor,
+        interval_days = new_interval_days,
+        repetitions = new_repetitions,
+        due_at = new_due_at,
+        stability = new_stability,
+        difficulty = new_difficulty,
+        last_reviewed = answered_at
+      WHERE id = target_character_id
+      RETURNING * INTO updated_row;
+
+      updated_json := to_jsonb(updated_row);
+    ELSE
+      UPDATE card_states
+      SET
+        ease_factor = new_ease_factor,
+        interval_days = new_interval_days,
+        repetitions = new_repetitions,
+        due_at = new_due_at,
+        stability = new_stability,
+        difficulty = new_difficulty,
+        last_reviewed = answered_at
+      WHERE character_id = target_character_id AND direction = answer_direction
+      RETURNING * INTO state_row;
+
+      updated_json := to_jsonb(updated_row) || (to_jsonb(state_row) - 'user_id' - 'character_id' - 'direction');
+    END IF;
+  END IF;
+
+  INSERT INTO reviews (user_id, character_id, reviewed_at, grade, response_time_ms, flip_time_ms, mode, session_id, direction)
+  VALUES (
+    current_row.user_id,
+    target_character_id,
+    answered_at,
+    answer_grade,
+    answer_response_time_ms,
+    answer_flip_time_ms,
+    answer_mode,
+    answer_session_id,
+    answer_direction
+  )
+  RETURNING id INTO new_review_id;
+
+  RETURN json_build_object(
+    'conflict', false,
+    'previous', previous_json,
+    'updated', updated_json,
+    'review_id', new_review_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Step 18: Tone drill answers
+-- One row per syllable answered in a tone drill, with the syllable before it in the same
+-- word so accuracy can be broken down by tone pair (e.g. 3-3 sandhi).
+CREATE TABLE IF NOT EXISTS tone_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  character_id UUID REFERENCES characters(id) ON DELETE SET NULL,
+  position SMALLINT NOT NULL,
+  expected_tone SMALLINT NOT NULL CHECK (expected_tone BETWEEN 1 AND 5),
+  chosen_tone SMALLINT NOT NULL CHECK (chosen_tone BETWEEN 1 AND 5),
+  previous_expected_tone SMALLINT CHECK (previous_expected_tone BETWEEN 1 AND 5),
+  previous_chosen_tone SMALLINT CHECK (previous_chosen_tone BETWEEN 1 AND 5),
+  answered_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tone_answers_user_answered_idx ON tone_answers (user_id, answered_at);
+
+ALTER TABLE tone_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tone answers"
+  ON tone_answers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tone answers"
+  ON tone_answers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tone answers"
+  ON tone_answers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 19: Pronunciation playback
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS speech_rate REAL NOT NULL DEFAULT 0.9 CHECK (speech_rate BETWEEN 0.5 AND 2);
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS auto_play_front BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS auto_play_back BOOLEAN NOT NULL DEFAULT false;
+
+-- Step 20: Tie tone drill answers to their review
+-- Tone answers are logged with the review they belong to, so undoing the answer (which
+-- deletes the review) removes them too, and writing them again after a retry is a no-op.
+ALTER TABLE tone_answers ADD COLUMN IF NOT EXISTS review_id UUID REFERENCES reviews(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tone_answers_review_position_idx ON tone_answers (review_id, position);
+
+-- Step 21: Idempotent answers
+-- Each answer carries a key generated on the device (its answer queue entry id). When a
+-- write succeeds but its response is lost, the retry finds the review with that key and
+-- returns it instead of applying the answer a second time.
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS reviews_user_client_idx ON reviews (user_id, client_id);
+
+-- record_answer gains the key. A duplicate is reported with the card as it is now for both
+-- rows, since the state before the first write is gone.
+DROP FUNCTION IF EXISTS record_answer(
+  UUID, SMALLINT, TIMESTAMPTZ, BOOLEAN, TIMESTAMPTZ, NUMERIC, INTEGER, INTEGER,
+  TIMESTAMPTZ, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, TEXT, UUID, TEXT
+);
+
+CREATE OR REPLACE FUNCTION record_answer(
+  target_character_id UUID,
+  answer_grade SMALLINT,
+  answered_at TIMESTAMPTZ,
+  update_schedule BOOLEAN,
+  expected_last_reviewed TIMESTAMPTZ DEFAULT NULL,
+  new_ease_factor NUMERIC DEFAULT NULL,
+  new_interval_days INTEGER DEFAULT NULL,
+  new_repetitions INTEGER DEFAULT NULL,
+  new_due_at TIMESTAMPTZ DEFAULT NULL,
+  new_stability DOUBLE PRECISION DEFAULT NULL,
+  new_difficulty DOUBLE PRECISION DEFAULT NULL,
+  answer_response_time_ms INTEGER DEFAULT NULL,
+  answer_flip_time_ms INTEGER DEFAULT NULL,
+  answer_mode TEXT DEFAULT 'flashcard',
+  answer_session_id UUID DEFAULT NULL,
+  answer_direction TEXT DEFAULT 'chinese-meaning',
+  answer_client_id UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_row characters%ROWTYPE;
+  updated_row characters%ROWTYPE;
+  state_row card_states%ROWTYPE;
+  is_default_direction BOOLEAN := answer_direction = 'chinese-meaning';
+  previous_json JSONB;
+  updated_json JSONB;
+  current_last_reviewed TIMESTAMPTZ;
+  current_due_at TIMESTAMPTZ;
+  is_correct BOOLEAN := answer_grade > 1;
+  new_lapses INTEGER;
+  becomes_leech BOOLEAN;
+  user_leech_threshold INTEGER;
+  user_leech_action TEXT;
+  preset_leech_threshold INTEGER;
+  new_review_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM characters
+  WHERE id = target_character_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Character % not found', target_character_id USING ERRCODE = 'P0002';
+  END IF;
+
+  previous_json := to_jsonb(current_row);
+  current_last_reviewed := current_row.last_reviewed;
+  current_due_at := current_row.due_at;
+
+  IF NOT is_default_direction THEN
+    -- Cards never studied in this direction start out new, dated from their creation
+    INSERT INTO card_states (user_id, character_id, direction, last_reviewed)
+    VALUES (current_row.user_id, target_character_id, answer_direction, current_row.created_at)
+    ON CONFLICT (character_id, direction) DO NOTHING;
+
+    SELECT * INTO state_row
+    FROM card_states
+    WHERE character_id = target_character_id AND direction = answer_direction
+    FOR UPDATE;
+
+    previous_json := previous_json || (to_jsonb(state_row) - 'user_id' - 'character_id' - 'direction');
+    current_last_reviewed := state_row.last_reviewed;
+    current_due_at := state_row.due_at;
+  END IF;
+
+  -- An answer sent again after its response was lost has already been applied
+  IF answer_client_id IS NOT NULL THEN
+    SELECT id INTO new_review_id
+    FROM reviews
+    WHERE user_id = current_row.user_id AND client_id = answer_client_id;
+
+    IF FOUND THEN
+      RETURN json_build_object(
+        'conflict', false,
+        'duplicate', true,
+        'previous', previous_json,
+        'updated', previous_json,
+        'review_id', new_review_id
+      );
+    END IF;
+  END IF;
+
+  updated_json := previous_json;
+
+  -- Repeats within the session's learning steps are only logged
+  IF update_schedule THEN
+    -- Browser timestamps carry milliseconds, stored ones may carry microseconds
+    IF expected_last_reviewed IS NOT NULL
+      AND date_trunc('milliseconds', current_last_reviewed) <> date_trunc('milliseconds', expected_last_reviewed) THEN
+      RETURN json_build_object('conflict', true, 'previous', previous_json);
+    END IF;
+
+    SELECT leech_threshold, leech_action INTO user_leech_threshold, user_leech_action
+    FROM user_settings
+    WHERE user_id = current_row.user_id;
+
+    -- A preset on the card's category overrides the leech threshold
+    SELECT p.leech_threshold INTO preset_leech_threshold
+    FROM category_presets cp
+    JOIN deck_presets p ON p.id = cp.preset_id
+    WHERE cp.user_id = current_row.user_id AND cp.category = current_row.category;
+
+    -- Forgetting a card that was already learned in this direction is a lapse; too many
+    -- (in any direction) make it a leech
+    new_lapses := current_row.lapses
+      + CASE WHEN NOT is_correct AND current_due_at IS NOT NULL THEN 1 ELSE 0 END;
+    becomes_leech := NOT current_row.is_leech AND new_lapses >= COALESCE(preset_leech_threshold, user_leech_threshold, 8);
+
+    UPDATE characters
+    SET
+      attempts = current_row.attempts + 1,
+      correct_count = current_row.correct_count + CASE WHEN is_correct THEN 1 ELSE 0 END,
+      score = CASE WHEN is_correct THEN current_row.score + 1 ELSE GREATEST(0, current_row.score - 1) END,
+      lapses = new_lapses,
+      is_leech = current_row.is_leech OR becomes_leech,
+      suspended = current_row.suspended OR (becomes_leech AND COALESCE(user_leech_action, 'tag') = 'suspend')
+    WHERE id = target_character_id
+    RETURNING * INTO updated_row;
+
+    IF is_default_direction THEN
+      UPDATE characters
+      SET
+        ease_factor = new_ease_factor,
+        interval_days = new_interval_days,
+        repetitions = new_repetitions,
+        due_at = new_due_at,
+        stability = new_stability,
+        difficulty = new_difficulty,
+        last_reviewed = answered_at
+      WHERE id = target_character_id
+      RETURNING * INTO updated_row;
+
+      updated_json := to_jsonb(updated_row);
+    ELSE
+      UPDATE card_states
+      SET
+        ease_factor = new_ease_factor,
+        interval_days = new_interval_days,
+        repetitions = new_repetitions,
+        due_at = new_due_at,
+        stability = new_stability,
+        difficulty = new_difficulty,
+        last_reviewed = answered_at
+      WHERE character_id = target_character_id AND direction = answer_direction
+      RETURNING * INTO state_row;
+
+      updated_json := to_jsonb(updated_row) || (to_jsonb(state_row) - 'user_id' - 'character_id' - 'direction');
+    END IF;
+  END IF;
+
+  INSERT INTO reviews (user_id, character_id, reviewed_at, grade, response_time_ms, flip_time_ms, mode, session_id, direction, client_id)
+  VALUES (
+    current_row.user_id,
+    target_character_id,
+    answered_at,
+    answer_grade,
+    answer_response_time_ms,
+    answer_flip_time_ms,
+    answer_mode,
+    answer_session_id,
+    answer_direction,
+    answer_client_id
+  )
+  RETURNING id INTO new_review_id;
+
+  RETURN json_build_object(
+    'conflict', false,
+    'previous', previous_json,
+    'updated', updated_json,
+    'review_id', new_review_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Step 22: Average response times per character
+-- Averaged in the database so the Manage Characters page does not have to read every review.
+-- security_invoker keeps the reviews policies in force for whoever queries the view.
+CREATE OR REPLACE VIEW review_response_times
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  character_id,
+  AVG(flip_time_ms)::DOUBLE PRECISION AS average_flip_ms,
+  AVG(response_time_ms)::DOUBLE PRECISION AS average_answer_ms,
+  COUNT(*)::INTEGER AS timed_reviews
+FROM reviews
+WHERE response_time_ms IS NOT NULL
+GROUP BY user_id, character_id;
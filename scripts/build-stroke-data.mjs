@@ -0,0 +1,80 @@
+// Write the per-character stroke files the app loads from public/strokes, as
+// { character, strokes, medians } in Make Me a Hanzi's coordinates.
+//
+// Usage: node scripts/build-stroke-data.mjs [path/to/graphics.txt]
+//
+// By default the data comes from the hanzi-writer-data dev dependency, Make Me a Hanzi's
+// graphics data split into one file per character (about 9,500 characters). Pass the
+// graphics.txt of a Make Me a Hanzi checkout (https://github.com/skishore/makemeahanzi)
+// to build from that instead. Runs before `dev` and `build`, and does nothing when the
+// output is already up to date.
+import { copyFileSync, createReadStream, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+
+const outDir = new URL('../public/strokes/', import.meta.url);
+// Records which source the files were built from, to skip rebuilding
+const stampFile = new URL('.source', outDir);
+
+const [graphics] = process.argv.slice(2);
+
+const packageSource = () => {
+  const require = createRequire(import.meta.url);
+  const packageJson = require.resolve('hanzi-writer-data/package.json');
+  const { version } = JSON.parse(readFileSync(packageJson, 'utf8'));
+  return {
+    dir: dirname(packageJson),
+    stamp: `hanzi-writer-data@${version}`,
+    license: join(dirname(packageJson), 'ARPHICPL.TXT')
+  };
+};
+
+// Every character of the source as [character, { strokes, medians }]
+async function* readPackage(dir) {
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json') || file === 'package.json') continue;
+    const { strokes, medians } = JSON.parse(readFileSync(join(dir, file), 'utf8'));
+    yield [file.slice(0, -'.json'.length), { strokes, medians }];
+  }
+}
+
+async function* readGraphics(path) {
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const { character, strokes, medians } = JSON.parse(line);
+    yield [character, { strokes, medians }];
+  }
+}
+
+const source = graphics
+  ? { entries: readGraphics(graphics), stamp: `graphics:${graphics}` }
+  : (() => {
+      const { dir, stamp, license } = packageSource();
+      return { entries: readPackage(dir), stamp, license };
+    })();
+
+if (existsSync(stampFile) && readFileSync(stampFile, 'utf8').trim() === source.stamp) {
+  process.exit(0);
+}
+
+rmSync(outDir, { recursive: true, force: true });
+mkdirSync(outDir, { recursive: true });
+
+let written = 0;
+for await (const [character, { strokes, medians }] of source.entries) {
+  // Only single characters; the files are looked up by code point
+  if ([...character].length !== 1) continue;
+  const file = new URL(`${character.codePointAt(0).toString(16)}.json`, outDir);
+  writeFileSync(file, JSON.stringify({ character, strokes, medians }) + '\n');
+  written++;
+}
+
+// The outlines come from Arphic fonts, whose licence has to travel with the data
+if (source.license) {
+  copyFileSync(source.license, new URL('ARPHICPL.TXT', outDir));
+}
+
+writeFileSync(stampFile, source.stamp + '\n');
+console.log(`Wrote ${written} stroke files to public/strokes (${source.stamp})`);
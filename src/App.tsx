@@ -9,6 +9,7 @@ import Auth from './pages/Auth';
 import Index from './pages/Index';
 import ManageCharacters from './pages/ManageCharacters';
 import Account from './pages/Account';
+import Forecast from './pages/Forecast';
 import NotFound from './pages/NotFound';
 
 const queryClient = new QueryClient();
@@ -48,6 +49,14 @@ const App = () => (
               </ProtectedRoute>
             } />
 
+            <Route path="/forecast" element={
+              <ProtectedRoute>
+                <RootLayout>
+                  <Forecast />
+                </RootLayout>
+              </ProtectedRoute>
+            } />
+
             {/* 404 page */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Character } from '@/lib/storage';
+import { CardDirection } from '@/lib/flashcard-logic';
+import SpeakButton from '@/components/SpeakButton';
+
+interface CardPromptProps {
+  character: Character;
+  direction: CardDirection;
+}
+
+// Front of a card: the Chinese, the meaning / pinyin when reversed, or only the sound
+// for listening cards
+export default function CardPrompt({ character, direction }: CardPromptProps) {
+  // Listening cards fall back to the pinyin on devices without a Chinese voice
+  const [noVoice, setNoVoice] = useState(false);
+
+  if (direction === 'listening') {
+    return (
+      <div className="flex flex-col items-center gap-2 mb-4">
+        <SpeakButton text={character.chinese} autoPlay="always" large onUnavailable={() => setNoVoice(true)} />
+        {noVoice ? (
+          <>
+            <div className="text-4xl font-medium text-blue-600">{character.pinyin}</div>
+            <div className="text-xs text-gray-500">No Chinese voice installed, showing the pinyin instead</div>
+          </>
+        ) : (
+          <div className="text-sm text-gray-500">Listen, then recall the characters and meaning</div>
+        )}
+      </div>
+    );
+  }
+
+  if (direction === 'meaning-chinese') {
+    return (
+      <div className="text-3xl font-semibold text-gray-800 mb-4">
+        {character.english}
+      </div>
+    );
+  }
+
+  if (direction === 'pinyin-chinese') {
+    return (
+      <div className="text-4xl font-medium text-blue-600 mb-4">
+        {character.pinyin}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-6xl font-bold text-gray-800 mb-4">
+      {character.chinese}
+    </div>
+  );
+}
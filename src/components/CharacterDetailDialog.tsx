@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Character } from '@/lib/storage';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+
+interface CharacterDetailDialogProps {
+  // Character shown; null closes the dialog
+  character: Character | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Larger view of one character with its stroke order
+export default function CharacterDetailDialog({ character, onOpenChange }: CharacterDetailDialogProps) {
+  return (
+    <Dialog open={character !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        {character && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="text-4xl text-center">{character.chinese}</DialogTitle>
+              <DialogDescription className="text-center">
+                <span className="block text-lg text-blue-600">{character.pinyin}</span>
+                <span className="block text-gray-700">{character.english}</span>
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex justify-center">
+              <Badge variant="outline">{character.category}</Badge>
+            </div>
+
+            <StrokeOrderViewer text={character.chinese} size={240} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
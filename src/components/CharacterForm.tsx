@@ -3,11 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Character } from '@/lib/storage';
+import { Character, NewCharacter } from '@/lib/storage';
 
 interface CharacterFormProps {
   character?: Character;
-  onSave: (character: Omit<Character, 'id' | 'score' | 'attempts' | 'correctCount' | 'lastReviewed'>) => void;
+  onSave: (character: NewCharacter) => void;
   onCancel: () => void;
 }
 
@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Trash2 } from 'lucide-react';
+import { presetStorage, DeckPreset, NewDeckPreset } from '@/lib/presets';
+import { settingsStorage, UserSettings, DEFAULT_SETTINGS } from '@/lib/settings';
+import { parseSteps } from '@/lib/utils';
+
+interface DeckOptionsDialogProps {
+  // Category whose options are edited; null closes the dialog
+  category: string | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after the category's options changed, to refresh queue counts
+  onSaved: () => void;
+}
+
+// Select values besides preset ids
+const ACCOUNT_SETTINGS = 'account';
+const NEW_PRESET = 'new';
+
+export default function DeckOptionsDialog({ category, onOpenChange, onSaved }: DeckOptionsDialogProps) {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [presets, setPresets] = useState<DeckPreset[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState(ACCOUNT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Editable fields of the selected preset
+  const [name, setName] = useState('');
+  const [newCardsPerDay, setNewCardsPerDay] = useState('');
+  const [maxReviewsPerDay, setMaxReviewsPerDay] = useState('');
+  const [learningSteps, setLearningSteps] = useState('');
+  const [desiredRetention, setDesiredRetention] = useState('');
+  const [leechThreshold, setLeechThreshold] = useState('');
+
+  const fillFields = (values: NewDeckPreset) => {
+    setName(values.name);
+    setNewCardsPerDay(String(values.newCardsPerDay));
+    setMaxReviewsPerDay(String(values.maxReviewsPerDay));
+    setLearningSteps(values.learningSteps.join(' '));
+    setDesiredRetention(String(Math.round(values.desiredRetention * 100)));
+    setLeechThreshold(String(values.leechThreshold));
+  };
+
+  // Start from the category's current preset every time the dialog opens
+  useEffect(() => {
+    if (category === null) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [userSettings, allPresets, allAssignments] = await Promise.all([
+          settingsStorage.getSettings(),
+          presetStorage.getPresets(),
+          presetStorage.getAssignments()
+        ]);
+        setSettings(userSettings);
+        setPresets(allPresets);
+        setAssignments(allAssignments);
+
+        const current = allPresets.find(preset => preset.id === allAssignments[category]);
+        setSelected(current?.id ?? ACCOUNT_SETTINGS);
+        fillFields(current ?? { ...userSettings, name: '' });
+      } catch (error) {
+        console.error('Failed to load deck options:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [category]);
+
+  const handleSelect = (value: string) => {
+    setSelected(value);
+    const preset = presets.find(p => p.id === value);
+    if (preset) {
+      fillFields(preset);
+    } else {
+      fillFields({ ...settings, name: value === NEW_PRESET ? `${category} options` : '' });
+    }
+  };
+
+  // Other categories that would be affected by editing the selected preset
+  const sharedWith = Object.keys(assignments)
+    .filter(other => other !== category && assignments[other] === selected)
+    .sort();
+
+  const parseFields = (): NewDeckPreset | null => {
+    if (!name.trim()) {
+      toast.error('Give the preset a name');
+      return null;
+    }
+
+    const newLimit = Number(newCardsPerDay);
+    const reviewLimit = Number(maxReviewsPerDay);
+    if (!Number.isInteger(newLimit) || newLimit < 0 || !Number.isInteger(reviewLimit) || reviewLimit < 0) {
+      toast.error('Daily limits must be whole numbers of 0 or more');
+      return null;
+    }
+
+    const steps = parseSteps(learningSteps);
+    if (!steps) {
+      toast.error('Steps must be positive numbers of minutes, e.g. "1 10"');
+      return null;
+    }
+
+    const retention = Number(desiredRetention);
+    if (!Number.isFinite(retention) || retention < 70 || retention > 99) {
+      toast.error('Desired retention must be between 70% and 99%');
+      return null;
+    }
+
+    const threshold = Number(leechThreshold);
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      toast.error('Leech threshold must be a whole number of 1 or more');
+      return null;
+    }
+
+    return {
+      name: name.trim(),
+      newCardsPerDay: newLimit,
+      maxReviewsPerDay: reviewLimit,
+      learningSteps: steps,
+      desiredRetention: retention / 100,
+      leechThreshold: threshold
+    };
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (category === null) return;
+
+    const values = selected === ACCOUNT_SETTINGS ? null : parseFields();
+    if (selected !== ACCOUNT_SETTINGS && !values) return;
+
+    setIsSaving(true);
+    try {
+      let presetId: string | null = null;
+      if (values) {
+        const saved = selected === NEW_PRESET
+          ? await presetStorage.addPreset(values)
+          : await presetStorage.updatePreset(selected, values);
+        if (!saved) {
+          toast.error('Failed to save preset');
+          return;
+        }
+        presetId = saved.id;
+      }
+
+      await presetStorage.assignPreset(category, presetId);
+      toast.success(`Options saved for ${category}`);
+      onSaved();
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    try {
+      await presetStorage.deletePreset(selected);
+      toast.success(`Deleted preset "${name}"`);
+      onSaved();
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isExistingPreset = selected !== ACCOUNT_SETTINGS && selected !== NEW_PRESET;
+  const isReadOnly = selected === ACCOUNT_SETTINGS || isSaving;
+
+  return (
+    <Dialog open={category !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{category} options</DialogTitle>
+            <DialogDescription>
+              Daily limits and scheduling for this category's cards
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="deckPreset">Preset</Label>
+                <Select value={selected} onValueChange={handleSelect} disabled={isSaving}>
+                  <SelectTrigger id="deckPreset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ACCOUNT_SETTINGS}>Account settings</SelectItem>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                    <SelectItem value={NEW_PRESET}>New preset...</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {selected === ACCOUNT_SETTINGS
+                    ? 'Uses the study settings from your account, shared with every category without a preset'
+                    : sharedWith.length > 0
+                      ? `Also used by ${sharedWith.join(', ')}`
+                      : 'Changes apply to every category using this preset'}
+                </p>
+              </div>
+
+              {selected !== ACCOUNT_SETTINGS && (
+                <div>
+                  <Label htmlFor="presetName">Name</Label>
+                  <Input
+                    id="presetName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="presetNewCards">New cards per day</Label>
+                  <Input
+                    id="presetNewCards"
+                    type="number"
+                    min={0}
+                    value={newCardsPerDay}
+                    onChange={(e) => setNewCardsPerDay(e.target.value)}
+                    disabled={isReadOnly}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="presetMaxReviews">Max reviews per day</Label>
+                  <Input
+                    id="presetMaxReviews"
+                    type="number"
+                    min={0}
+                    value={maxReviewsPerDay}
+                    onChange={(e) => setMaxReviewsPerDay(e.target.value)}
+                    disabled={isReadOnly}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="presetLearningSteps">Learning steps (minutes)</Label>
+                <Input
+                  id="presetLearningSteps"
+                  value={learningSteps}
+                  onChange={(e) => setLearningSteps(e.target.value)}
+                  placeholder="1 10"
+                  disabled={isReadOnly}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="presetRetention">Desired retention (%)</Label>
+                  <Input
+                    id="presetRetention"
+                    type="number"
+                    min={70}
+                    max={99}
+                    value={desiredRetention}
+                    onChange={(e) => setDesiredRetention(e.target.value)}
+                    disabled={isReadOnly}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="presetLeechThreshold">Leech threshold (lapses)</Label>
+                  <Input
+                    id="presetLeechThreshold"
+                    type="number"
+                    min={1}
+                    value={leechThreshold}
+                    onChange={(e) => setLeechThreshold(e.target.value)}
+                    disabled={isReadOnly}
+                  />
+                </div>
+              </div>
+              {settings.algorithm !== 'fsrs' && (
+                <p className="text-xs text-gray-500">
+                  Desired retention only applies with the FSRS scheduler
+                </p>
+              )}
+            </>
+          )}
+
+          <DialogFooter className="gap-2">
+            {isExistingPreset && (
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600 sm:mr-auto"
+                onClick={handleDelete}
+                disabled={isSaving}
+              >
+                <Trash2 className="mr-2" size={16} />
+                Delete preset
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
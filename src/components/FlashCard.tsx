@@ -1,16 +1,57 @@
 import { useState, useRef, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { RotateCcw, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { RotateCcw, ThumbsUp, ThumbsDown, ChevronsUp, ChevronsDown, PauseCircle, EyeOff } from 'lucide-react';
 import { Character } from '@/lib/storage';
+import { Grade, GRADES, GRADE_LABELS } from '@/lib/scheduler';
+import { CardDirection, AnswerTiming } from '@/lib/flashcard-logic';
+import CardPrompt from '@/components/CardPrompt';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+import SpeakButton from '@/components/SpeakButton';
 
 interface FlashCardProps {
   character: Character;
-  onAnswer: (isCorrect: boolean) => void;
+  onAnswer: (grade: Grade, timing: AnswerTiming) => void;
   showAnswer?: boolean;
+  // Which side is shown as the prompt
+  direction?: CardDirection;
+  // Changes whenever a new card is dealt, even if the same character comes back
+  cardKey?: string | number;
+  onSuspend?: () => void;
+  onBury?: () => void;
 }
 
-export default function FlashCard({ character, onAnswer, showAnswer = false }: FlashCardProps) {
+// Minimum drag distance (px) that counts as a swipe
+const SWIPE_THRESHOLD = 100;
+
+// Button colours for each grade
+const GRADE_STYLES: Record<Grade, string> = {
+  again: 'border-red-500 text-red-500 hover:bg-red-50',
+  hard: 'border-orange-500 text-orange-500 hover:bg-orange-50',
+  good: 'border-green-500 text-green-500 hover:bg-green-50',
+  easy: 'border-blue-500 text-blue-500 hover:bg-blue-50'
+};
+
+// Map a drag offset to a grade: left = Again, down = Hard, right = Good, up = Easy
+const gradeFromDrag = ({ x, y }: { x: number; y: number }): Grade | null => {
+  if (Math.max(Math.abs(x), Math.abs(y)) <= SWIPE_THRESHOLD) {
+    return null;
+  }
+  if (Math.abs(x) >= Math.abs(y)) {
+    return x > 0 ? 'good' : 'again';
+  }
+  return y < 0 ? 'easy' : 'hard';
+};
+
+export default function FlashCard({
+  character,
+  onAnswer,
+  showAnswer = false,
+  direction = 'chinese-meaning',
+  cardKey,
+  onSuspend,
+  onBury
+}: FlashCardProps) {
   const [isFlipped, setIsFlipped] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   // Use ref to track drag offset to avoid stale closures in event listeners
@@ -19,10 +60,15 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
   const [animationClass, setAnimationClass] = useState('');
   const cardRef = useRef<HTMLDivElement>(null);
   const isFirstRender = useRef(true);
+  // When the current card was shown and first flipped, for answer latency
+  const shownAtRef = useRef(Date.now());
+  const flippedAtRef = useRef<number | null>(null);
 
   // Reset flip state when character changes
   useEffect(() => {
     setIsFlipped(false);
+    shownAtRef.current = Date.now();
+    flippedAtRef.current = null;
     // Reset drag offset ref
     dragOffsetRef.current = { x: 0, y: 0 };
     setDragOffset({ x: 0, y: 0 });
@@ -36,12 +82,49 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
     } else {
       isFirstRender.current = false;
     }
-  }, [character.id]);
+  }, [character.id, cardKey]);
+
+  // Grade the card along with how long it took
+  const submitAnswer = (grade: Grade) => {
+    const now = Date.now();
+    onAnswer(grade, {
+      flipMs: flippedAtRef.current !== null ? flippedAtRef.current - shownAtRef.current : null,
+      answerMs: now - shownAtRef.current
+    });
+  };
+
+  // Keyboard shortcuts: Space/Enter flips, 1-4 grade the card once flipped
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+
+      if (!isFlipped && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        handleFlip(true);
+        return;
+      }
+
+      const gradeIndex = ['1', '2', '3', '4'].indexOf(e.key);
+      if (isFlipped && showAnswer && gradeIndex !== -1) {
+        e.preventDefault();
+        submitAnswer(GRADES[gradeIndex]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isFlipped, showAnswer, onAnswer]);
 
   // Handle flip animations
   const handleFlip = (flipped: boolean) => {
     setIsFlipped(flipped);
     if (flipped) {
+      if (flippedAtRef.current === null) {
+        flippedAtRef.current = Date.now();
+      }
       setAnimationClass('animate-bounce-shake');
       // Remove class after animation completes so it can be re-triggered if needed
       setTimeout(() => setAnimationClass(''), 600);
@@ -71,12 +154,9 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
         setIsDragging(false);
         
         // Check ref instead of state to get the latest value
-        if (Math.abs(dragOffsetRef.current.x) > 100) {
-          if (dragOffsetRef.current.x > 0) {
-            onAnswer(true); // Swipe right = correct
-          } else {
-            onAnswer(false); // Swipe left = incorrect
-          }
+        const grade = gradeFromDrag(dragOffsetRef.current);
+        if (grade) {
+          submitAnswer(grade);
         }
         
         // Reset both
@@ -114,12 +194,9 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
         setIsDragging(false);
         
         // Check ref instead of state
-        if (Math.abs(dragOffsetRef.current.x) > 100) {
-          if (dragOffsetRef.current.x > 0) {
-            onAnswer(true); // Swipe right = correct
-          } else {
-            onAnswer(false); // Swipe left = incorrect
-          }
+        const grade = gradeFromDrag(dragOffsetRef.current);
+        if (grade) {
+          submitAnswer(grade);
         }
         
         // Reset both
@@ -142,7 +219,7 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
     <div className="relative w-full max-w-md mx-auto">
       {/* Swipe indicators */}
       <div className={`absolute left-4 top-1/2 transform -translate-y-1/2 transition-opacity duration-200 ${
-        dragOffset.x < -50 ? 'opacity-100' : 'opacity-0'
+        dragOffset.x < -50 && Math.abs(dragOffset.x) >= Math.abs(dragOffset.y) ? 'opacity-100' : 'opacity-0'
       }`}>
         <div className="bg-red-500 text-white p-3 rounded-full">
           <ThumbsDown size={24} />
@@ -150,13 +227,29 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
       </div>
       
       <div className={`absolute right-4 top-1/2 transform -translate-y-1/2 transition-opacity duration-200 ${
-        dragOffset.x > 50 ? 'opacity-100' : 'opacity-0'
+        dragOffset.x > 50 && Math.abs(dragOffset.x) >= Math.abs(dragOffset.y) ? 'opacity-100' : 'opacity-0'
       }`}>
         <div className="bg-green-500 text-white p-3 rounded-full">
           <ThumbsUp size={24} />
         </div>
       </div>
 
+      <div className={`absolute left-1/2 top-4 transform -translate-x-1/2 transition-opacity duration-200 ${
+        dragOffset.y < -50 && Math.abs(dragOffset.y) > Math.abs(dragOffset.x) ? 'opacity-100' : 'opacity-0'
+      }`}>
+        <div className="bg-blue-500 text-white p-3 rounded-full">
+          <ChevronsUp size={24} />
+        </div>
+      </div>
+
+      <div className={`absolute left-1/2 bottom-12 transform -translate-x-1/2 transition-opacity duration-200 ${
+        dragOffset.y > 50 && Math.abs(dragOffset.y) > Math.abs(dragOffset.x) ? 'opacity-100' : 'opacity-0'
+      }`}>
+        <div className="bg-orange-500 text-white p-3 rounded-full">
+          <ChevronsDown size={24} />
+        </div>
+      </div>
+
       {/* Main card */}
       <Card
         ref={cardRef}
@@ -173,11 +266,13 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
       >
         <CardContent className="p-8 text-center min-h-[300px] flex flex-col justify-center">
           {!isFlipped ? (
-            // Front side - Chinese character ONLY
+            // Front side - Chinese character ONLY, or the meaning / pinyin when reversed
             <div className="space-y-4">
-              <div className="text-6xl font-bold text-gray-800 mb-4">
-                {character.chinese}
-              </div>
+              <CardPrompt character={character} direction={direction} />
+              {/* Playing the sound would give away a meaning → Chinese card */}
+              {(direction === 'chinese-meaning' || direction === 'pinyin-chinese') && (
+                <SpeakButton text={character.chinese} autoPlay="front" />
+              )}
               {/* Category removed from front side */}
               <Button
                 variant="outline"
@@ -193,9 +288,13 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
           ) : (
             // Back side - Pinyin and English
             <div className="space-y-6">
-              <div className="text-4xl font-bold text-gray-800">
-                {character.chinese}
+              <div className="flex items-center justify-center gap-2">
+                <div className="text-4xl font-bold text-gray-800">
+                  {character.chinese}
+                </div>
+                <SpeakButton text={character.chinese} autoPlay="back" />
               </div>
+              <StrokeOrderViewer text={character.chinese} size={140} />
               <div className="text-2xl text-blue-600 font-medium">
                 {character.pinyin}
               </div>
@@ -207,36 +306,60 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
               </div>
               
               {showAnswer && (
-                <div className="flex gap-4 justify-center mt-6">
-                  <Button
-                    variant="outline"
-                    size="lg"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onAnswer(false);
-                    }}
-                    className="!bg-transparent !hover:bg-transparent border-red-500 text-red-500 hover:bg-red-50"
-                  >
-                    <ThumbsDown className="mr-2" size={20} />
-                    Incorrect
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="lg"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onAnswer(true);
-                    }}
-                    className="!bg-transparent !hover:bg-transparent border-green-500 text-green-500 hover:bg-green-50"
-                  >
-                    <ThumbsUp className="mr-2" size={20} />
-                    Correct
-                  </Button>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-6">
+                  {GRADES.map((grade, index) => (
+                    <Button
+                      key={grade}
+                      variant="outline"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        submitAnswer(grade);
+                      }}
+                      className={`!bg-transparent !hover:bg-transparent ${GRADE_STYLES[grade]}`}
+                    >
+                      {GRADE_LABELS[grade]}
+                      <span className="ml-2 text-xs opacity-60">{index + 1}</span>
+                    </Button>
+                  ))}
                 </div>
               )}
             </div>
           )}
           
+          {/* Suspend / bury actions */}
+          {(onSuspend || onBury) && (
+            <div className="absolute top-4 left-4 flex gap-1">
+              {onBury && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Bury until tomorrow"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onBury();
+                  }}
+                >
+                  <EyeOff size={16} />
+                </Button>
+              )}
+              {onSuspend && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Suspend card"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSuspend();
+                  }}
+                >
+                  <PauseCircle size={16} />
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Reset flip button */}
           <Button
             variant="ghost"
@@ -254,7 +377,7 @@ export default function FlashCard({ character, onAnswer, showAnswer = false }: F
 
       {/* Instructions */}
       <div className="text-center mt-4 text-sm text-gray-500">
-        Swipe right for correct, left for incorrect, or use buttons
+        Swipe left for Again, down for Hard, right for Good, up for Easy, or press 1-4
       </div>
     </div>
   );
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { storage, Review } from '@/lib/storage';
+
+interface LeechHistoryProps {
+  characterId: string;
+}
+
+// Number of most recent failures listed
+const MAX_FAILURES_SHOWN = 10;
+
+export default function LeechHistory({ characterId }: LeechHistoryProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReviews = async () => {
+      setIsLoading(true);
+      const history = await storage.getReviews({ characterId });
+      if (!cancelled) {
+        setReviews(history);
+        setIsLoading(false);
+      }
+    };
+
+    loadReviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [characterId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const failures = reviews.filter(review => review.grade === 1).reverse();
+
+  return (
+    <div className="text-xs text-gray-600 space-y-1">
+      <div>
+        Failed {failures.length} of {reviews.length} logged reviews
+      </div>
+      {failures.length > 0 && (
+        <ul className="space-y-0.5">
+          {failures.slice(0, MAX_FAILURES_SHOWN).map(review => (
+            <li key={review.id} className="text-red-600">
+              {format(review.reviewedAt, 'PP p')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
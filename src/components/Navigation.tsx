@@ -2,8 +2,9 @@ import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
+import { SyncIndicator } from '@/components/SyncIndicator';
 import { useAuth } from '@/lib/auth-context';
-import { User, LogOut, Library, Menu } from 'lucide-react';
+import { User, LogOut, Library, Menu, BarChart3 } from 'lucide-react';
 
 export function Navigation() {
   const { user, signOut } = useAuth();
@@ -30,12 +31,19 @@ export function Navigation() {
         <div className="hidden sm:flex items-center gap-4">
           {user ? (
             <>
+              <SyncIndicator />
               <Link to="/manage">
                 <Button variant="ghost" size="sm">
                   <Library className="w-4 h-4 mr-2" />
                   Characters
                 </Button>
               </Link>
+              <Link to="/forecast">
+                <Button variant="ghost" size="sm">
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  Forecast
+                </Button>
+              </Link>
               <Link to="/account">
                 <Button variant="ghost" size="sm">
                   <User className="w-4 h-4 mr-2" />
@@ -60,7 +68,8 @@ export function Navigation() {
         </div>
 
         {/* Mobile hamburger */}
-        <div className="sm:hidden">
+        <div className="sm:hidden flex items-center gap-1">
+          {user && <SyncIndicator />}
           <Sheet open={open} onOpenChange={setOpen}>
             <SheetTrigger asChild>
               <Button variant="ghost" size="icon" aria-label="Open menu">
@@ -80,6 +89,12 @@ export function Navigation() {
                         Characters
                       </Button>
                     </Link>
+                    <Link to="/forecast" onClick={close}>
+                      <Button variant="ghost" className="w-full justify-start min-h-[44px]">
+                        <BarChart3 className="w-4 h-4 mr-2" />
+                        Forecast
+                      </Button>
+                    </Link>
                     <Link to="/account" onClick={close}>
                       <Button variant="ghost" className="w-full justify-start min-h-[44px]">
                         <User className="w-4 h-4 mr-2" />
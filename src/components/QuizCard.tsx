@@ -0,0 +1,193 @@
+import { useState, useRef, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, XCircle, PauseCircle, EyeOff } from 'lucide-react';
+import { Character } from '@/lib/storage';
+import { Grade, GRADE_LABELS } from '@/lib/scheduler';
+import { CardDirection, AnswerTiming } from '@/lib/flashcard-logic';
+import { quiz, QuizField, QuizOption, QUIZ_FIELD_LABELS } from '@/lib/quiz';
+import CardPrompt from '@/components/CardPrompt';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+
+interface QuizCardProps {
+  character: Character;
+  // The user's cards, to draw wrong options from
+  pool: Character[];
+  onAnswer: (grade: Grade, timing: AnswerTiming) => void;
+  direction?: CardDirection;
+  // Changes whenever a new card is dealt, even if the same character comes back
+  cardKey?: string | number;
+  onSuspend?: () => void;
+  onBury?: () => void;
+}
+
+// Options offered for each direction; reversed cards are answered with the characters
+const QUIZ_FIELDS: Record<CardDirection, QuizField[]> = {
+  'chinese-meaning': ['english', 'pinyin'],
+  'meaning-chinese': ['chinese'],
+  'pinyin-chinese': ['chinese'],
+  listening: ['chinese', 'english']
+};
+
+// Multiple-choice card: pick the right option out of four, graded automatically
+export default function QuizCard({
+  character,
+  pool,
+  onAnswer,
+  direction = 'chinese-meaning',
+  cardKey,
+  onSuspend,
+  onBury
+}: QuizCardProps) {
+  const fields = QUIZ_FIELDS[direction];
+  // Kept across cards so the choice of meaning or pinyin sticks for the session
+  const [field, setField] = useState<QuizField>(fields[0]);
+  const [options, setOptions] = useState<QuizOption[]>([]);
+  const [chosen, setChosen] = useState<number | null>(null);
+  const continueRef = useRef<HTMLButtonElement>(null);
+  // When the card was shown and the option picked, for answer latency
+  const shownAtRef = useRef(Date.now());
+  const chosenAtRef = useRef<number | null>(null);
+
+  const activeField = fields.includes(field) ? field : fields[0];
+
+  // Deal new options for every card (and when switching between meaning and pinyin).
+  // The pool only supplies wrong options, so a refreshed pool does not reshuffle the card.
+  useEffect(() => {
+    setOptions(quiz.buildOptions(character, pool, activeField));
+    setChosen(null);
+    shownAtRef.current = Date.now();
+    chosenAtRef.current = null;
+  }, [character.id, cardKey, activeField]);
+
+  useEffect(() => {
+    if (chosen !== null) {
+      continueRef.current?.focus();
+    }
+  }, [chosen]);
+
+  const isAnswered = chosen !== null;
+  const isCorrect = isAnswered && options[chosen].correct;
+  const grade: Grade = isCorrect ? 'good' : 'again';
+
+  const handleChoose = (index: number) => {
+    if (isAnswered) return;
+    chosenAtRef.current = Date.now();
+    setChosen(index);
+  };
+
+  // Time to pick an option stands in for time to flip
+  const handleContinue = () => {
+    if (chosenAtRef.current === null) return;
+    onAnswer(grade, {
+      flipMs: chosenAtRef.current - shownAtRef.current,
+      answerMs: Date.now() - shownAtRef.current
+    });
+  };
+
+  // Keys 1-4 pick an option
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+
+      const index = ['1', '2', '3', '4'].indexOf(e.key);
+      if (!isAnswered && index !== -1 && index < options.length) {
+        e.preventDefault();
+        chosenAtRef.current = Date.now();
+        setChosen(index);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isAnswered, options.length]);
+
+  const optionStyle = (option: QuizOption, index: number) => {
+    if (!isAnswered) return '';
+    if (option.correct) return '!border-green-500 !bg-green-50 text-green-700';
+    if (index === chosen) return '!border-red-500 !bg-red-50 text-red-700';
+    return 'opacity-60';
+  };
+
+  return (
+    <div className="relative w-full max-w-md mx-auto">
+      <Card className={isAnswered ? 'bg-blue-50' : 'bg-white'}>
+        <CardContent className="p-8 text-center min-h-[300px] flex flex-col justify-center space-y-4">
+          <CardPrompt character={character} direction={direction} />
+
+          {fields.length > 1 && !isAnswered && (
+            <div className="flex justify-center gap-1">
+              {fields.map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={option === activeField ? 'secondary' : 'ghost'}
+                  onClick={() => setField(option)}
+                >
+                  {QUIZ_FIELD_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-2">
+            {options.map((option, index) => (
+              <Button
+                key={`${index}-${option.text}`}
+                variant="outline"
+                className={`h-auto py-3 justify-start whitespace-normal text-left ${
+                  activeField === 'chinese' ? 'text-2xl' : 'text-base'
+                } ${optionStyle(option, index)}`}
+                onClick={() => handleChoose(index)}
+                disabled={isAnswered && !option.correct && index !== chosen}
+              >
+                <span className="mr-3 text-xs text-gray-400">{index + 1}</span>
+                <span className="flex-1">{option.text}</span>
+                {isAnswered && option.correct && <CheckCircle2 size={18} />}
+                {isAnswered && index === chosen && !option.correct && <XCircle size={18} />}
+              </Button>
+            ))}
+          </div>
+
+          {isAnswered && (
+            <div className="space-y-2">
+              <div className="text-gray-700">
+                <span className="text-2xl font-bold text-gray-800 mr-3">{character.chinese}</span>
+                <span className="text-blue-600 font-medium mr-3">{character.pinyin}</span>
+                {character.english}
+              </div>
+              <StrokeOrderViewer text={character.chinese} size={140} />
+              <Button ref={continueRef} onClick={handleContinue}>
+                Continue ({GRADE_LABELS[grade]})
+              </Button>
+            </div>
+          )}
+
+          {/* Suspend / bury actions */}
+          {(onSuspend || onBury) && (
+            <div className="absolute top-4 left-4 flex gap-1">
+              {onBury && (
+                <Button variant="ghost" size="sm" title="Bury until tomorrow" onClick={onBury}>
+                  <EyeOff size={16} />
+                </Button>
+              )}
+              {onSuspend && (
+                <Button variant="ghost" size="sm" title="Suspend card" onClick={onSuspend}>
+                  <PauseCircle size={16} />
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Instructions */}
+      <div className="text-center mt-4 text-sm text-gray-500">
+        Pick an answer or press 1-4, then Enter to continue
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlayCircle } from 'lucide-react';
+import {
+  SessionConfig,
+  SessionOrder,
+  CardDirection,
+  StudyMode,
+  CategoryWeights,
+  flashcardLogic,
+  SESSION_ORDER_LABELS,
+  CARD_DIRECTION_LABELS,
+  STUDY_MODE_LABELS
+} from '@/lib/flashcard-logic';
+
+interface SessionSetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Categories the session will be drawn from; empty means all categories
+  categories: string[];
+  // Choices to start from, usually the user's last ones
+  initialConfig: SessionConfig;
+  onStart: (config: SessionConfig, weights: CategoryWeights) => void;
+}
+
+const MAX_SESSION_SIZE = 500;
+const MAX_WEIGHT = 10;
+
+export default function SessionSetupDialog({
+  open,
+  onOpenChange,
+  categories,
+  initialConfig,
+  onStart
+}: SessionSetupDialogProps) {
+  const [size, setSize] = useState(String(initialConfig.size));
+  const [order, setOrder] = useState<SessionOrder>(initialConfig.order);
+  const [direction, setDirection] = useState<CardDirection>(initialConfig.direction);
+  const [mode, setMode] = useState<StudyMode>(initialConfig.mode);
+  const [cram, setCram] = useState(initialConfig.cram);
+  // Relative share of each category when several are studied together
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  // Start from the remembered choices every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSize(String(initialConfig.size));
+      setOrder(initialConfig.order);
+      setDirection(initialConfig.direction);
+      setMode(initialConfig.mode);
+      setCram(initialConfig.cram);
+      setWeights(Object.fromEntries(categories.map(category => [category, '1'])));
+    }
+  }, [open, initialConfig, categories]);
+
+  const parsedSize = parseInt(size, 10);
+  const isSizeValid = Number.isInteger(parsedSize) && parsedSize >= 1 && parsedSize <= MAX_SESSION_SIZE;
+
+  const parsedWeights: CategoryWeights = Object.fromEntries(
+    categories.map(category => [category, parseInt(weights[category] ?? '1', 10)])
+  );
+  const areWeightsValid = categories.length < 2 || (
+    Object.values(parsedWeights).every(weight => Number.isInteger(weight) && weight >= 0 && weight <= MAX_WEIGHT) &&
+    Object.values(parsedWeights).some(weight => weight > 0)
+  );
+  const totalWeight = areWeightsValid
+    ? Object.values(parsedWeights).reduce((sum, weight) => sum + weight, 0)
+    : 0;
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isSizeValid || !areWeightsValid) return;
+    onStart({ size: parsedSize, order, direction, mode, cram }, parsedWeights);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleStart} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Start a session</DialogTitle>
+            <DialogDescription>
+              {flashcardLogic.describeCategories(categories)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="sessionSize">Number of cards</Label>
+            <Input
+              id="sessionSize"
+              type="number"
+              min={1}
+              max={MAX_SESSION_SIZE}
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+            />
+            {!isSizeValid && (
+              <p className="text-xs text-red-600 mt-1">
+                Enter a number between 1 and {MAX_SESSION_SIZE}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="sessionOrder">Order</Label>
+            <Select value={order} onValueChange={(value) => setOrder(value as SessionOrder)}>
+              <SelectTrigger id="sessionOrder">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SESSION_ORDER_LABELS) as SessionOrder[]).map(value => (
+                  <SelectItem key={value} value={value}>{SESSION_ORDER_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {order !== 'priority' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Draws from all cards, not only those due today
+              </p>
+            )}
+          </div>
+
+          {categories.length > 1 && (
+            <div className="space-y-2">
+              <Label>Category mix</Label>
+              {categories.map(category => (
+                <div key={category} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm">{category}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={MAX_WEIGHT}
+                    className="w-20"
+                    aria-label={`${category} weight`}
+                    value={weights[category] ?? '1'}
+                    onChange={(e) => setWeights(current => ({ ...current, [category]: e.target.value }))}
+                  />
+                  <span className="w-12 text-right text-xs text-gray-500">
+                    {totalWeight > 0 ? `${Math.round((parsedWeights[category] / totalWeight) * 100)}%` : '–'}
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                {areWeightsValid
+                  ? 'Cards are interleaved in these proportions; a category that runs out passes its share on'
+                  : `Weights must be whole numbers from 0 to ${MAX_WEIGHT}, at least one above 0`}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="cardDirection">Card direction</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as CardDirection)}>
+                <SelectTrigger id="cardDirection">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CARD_DIRECTION_LABELS) as CardDirection[]).map(value => (
+                    <SelectItem key={value} value={value}>{CARD_DIRECTION_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="studyMode">Study mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as StudyMode)}>
+                <SelectTrigger id="studyMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STUDY_MODE_LABELS) as StudyMode[]).map(value => (
+                    <SelectItem key={value} value={value}>{STUDY_MODE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="cram">Cram mode</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                Run through the cards without changing scores or review dates
+              </p>
+            </div>
+            <Switch id="cram" checked={cram} onCheckedChange={setCram} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isSizeValid || !areWeightsValid}>
+              <PlayCircle className="mr-2" size={16} />
+              Start
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
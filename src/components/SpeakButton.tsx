@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Volume2, VolumeX } from 'lucide-react';
+import { speech } from '@/lib/speech';
+import { settingsStorage } from '@/lib/settings';
+
+interface SpeakButtonProps {
+  // Chinese text read aloud
+  text: string;
+  // Play once when shown: always, or only if the user turned on auto-play for that side
+  autoPlay?: 'always' | 'front' | 'back';
+  // Big button used as the whole prompt of a listening card
+  large?: boolean;
+  // Called when there is no Chinese voice, e.g. to show the text instead
+  onUnavailable?: () => void;
+}
+
+// Plays a word's pronunciation at the user's speech rate
+export default function SpeakButton({ text, autoPlay, large = false, onUnavailable }: SpeakButtonProps) {
+  const [isUnavailable, setIsUnavailable] = useState(!speech.isSupported());
+
+  const play = async () => {
+    const settings = await settingsStorage.getSettings();
+    const played = await speech.speak(text, { rate: settings.speechRate });
+    if (!played) {
+      setIsUnavailable(true);
+      onUnavailable?.();
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const playOnShow = async () => {
+      if (!autoPlay) return;
+      const settings = await settingsStorage.getSettings();
+      const wanted = autoPlay === 'always' ||
+        (autoPlay === 'front' && settings.autoPlayFront) ||
+        (autoPlay === 'back' && settings.autoPlayBack);
+      if (wanted && !cancelled) {
+        play();
+      }
+    };
+
+    playOnShow();
+    return () => {
+      cancelled = true;
+    };
+  }, [text, autoPlay]);
+
+  // Stop reading when the card goes away
+  useEffect(() => () => speech.stop(), []);
+
+  if (isUnavailable && !large) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant={large ? 'outline' : 'ghost'}
+      size={large ? 'lg' : 'sm'}
+      className={large ? 'h-20 w-20 rounded-full' : ''}
+      title={isUnavailable ? 'No Chinese voice installed' : 'Play pronunciation'}
+      aria-label="Play pronunciation"
+      disabled={isUnavailable}
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        play();
+      }}
+    >
+      {isUnavailable ? <VolumeX size={large ? 32 : 18} /> : <Volume2 size={large ? 32 : 18} />}
+    </Button>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect, useRef, useId } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play, Pause, StepForward, RotateCcw, Square } from 'lucide-react';
+import { strokeData, StrokeData, Point, STROKE_BOX_SIZE, STROKE_BASELINE } from '@/lib/strokes';
+
+interface StrokeOrderViewerProps {
+  // Entry whose hanzi are animated, e.g. "你好"
+  text: string;
+  // Side of the drawing in CSS pixels
+  size?: number;
+  // Start animating as soon as the stroke data has loaded
+  autoPlay?: boolean;
+}
+
+// One hanzi of the entry; data is null when the bundled dataset does not have it
+interface ViewerEntry {
+  character: string;
+  data: StrokeData | null;
+}
+
+// Time to draw one stroke at normal speed, in ms
+const STROKE_MS = 700;
+
+const SPEEDS = [0.5, 1, 2];
+
+// Width of the line that reveals a stroke, in drawing box units; it is clipped to the
+// stroke's outline, so it only has to be wide enough to fill it
+const REVEAL_WIDTH = 160;
+
+// Outlines are in Make Me a Hanzi's y-up coordinates
+const OUTLINE_TRANSFORM = `translate(0, ${STROKE_BASELINE}) scale(1, -1)`;
+
+const toPolyline = (median: Point[]) => median.map(([x, y]) => `${x},${y}`).join(' ');
+
+// Animated stroke order for each hanzi of an entry, with play / pause, step, speed and an
+// outline mode that traces every stroke's outline underneath the animation
+export default function StrokeOrderViewer({ text, size = 160, autoPlay = true }: StrokeOrderViewerProps) {
+  const clipId = useId();
+  // Each hanzi with its stroke data; null until loaded
+  const [entries, setEntries] = useState<ViewerEntry[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  // Strokes drawn so far in the selected hanzi, the fraction being the stroke in progress
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [showOutline, setShowOutline] = useState(true);
+  const lastFrameRef = useRef<number | null>(null);
+  // Latest position, for the animation loop
+  const positionRef = useRef(0);
+
+  const updatePosition = (value: number) => {
+    positionRef.current = value;
+    setPosition(value);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const hanzi = strokeData.hanzi(text);
+    setEntries(null);
+    setSelected(0);
+    updatePosition(0);
+    setIsPlaying(false);
+
+    Promise.all(hanzi.map(char => strokeData.load(char))).then(loaded => {
+      if (cancelled) return;
+      const next = hanzi.map((character, index) => ({ character, data: loaded[index] }));
+      const first = next.findIndex(entry => entry.data !== null);
+      setEntries(next);
+      setSelected(Math.max(0, first));
+      setIsPlaying(autoPlay && first !== -1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [text, autoPlay]);
+
+  const current = entries?.[selected] ?? null;
+  const total = current?.data?.medians.length ?? 0;
+
+  // Next hanzi after the selected one that can be animated, or -1
+  const nextAnimated = entries
+    ? entries.findIndex((entry, index) => index > selected && entry.data !== null)
+    : -1;
+
+  // Advance the animation every frame while playing; at the end of a hanzi, carry on
+  // with the next one that has data
+  useEffect(() => {
+    if (!isPlaying || !entries) return;
+
+    let frame: number;
+    const tick = (time: number) => {
+      const elapsed = lastFrameRef.current === null ? 0 : time - lastFrameRef.current;
+      lastFrameRef.current = time;
+
+      const next = positionRef.current + (elapsed * speed) / STROKE_MS;
+      if (next < total) {
+        updatePosition(next);
+      } else if (nextAnimated !== -1) {
+        updatePosition(0);
+        setSelected(nextAnimated);
+      } else {
+        updatePosition(total);
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      lastFrameRef.current = null;
+    };
+  }, [isPlaying, speed, selected, entries, total, nextAnimated]);
+
+  // Nothing to show for entries without any hanzi, e.g. pinyin-only cards
+  if (entries !== null && entries.length === 0) {
+    return null;
+  }
+
+  const hasAnyData = entries?.some(entry => entry.data !== null) ?? false;
+  const firstAnimated = entries?.findIndex(entry => entry.data !== null) ?? -1;
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Replay from the start once everything has been drawn
+    if (position >= total && nextAnimated === -1) {
+      setSelected(Math.max(0, firstAnimated));
+      updatePosition(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const handleStep = () => {
+    setIsPlaying(false);
+    if (position >= total && nextAnimated !== -1) {
+      setSelected(nextAnimated);
+      updatePosition(1);
+      return;
+    }
+    updatePosition(Math.min(total, Math.floor(position) + 1));
+  };
+
+  const handleRestart = () => {
+    setSelected(Math.max(0, firstAnimated));
+    updatePosition(0);
+    setIsPlaying(true);
+  };
+
+  const handleSelect = (index: number) => {
+    setSelected(index);
+    updatePosition(0);
+    setIsPlaying(entries?.[index].data !== null);
+  };
+
+  const nextSpeed = SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length];
+
+  // How much of a stroke is drawn, 0 to 1
+  const strokeProgress = (index: number) => Math.max(0, Math.min(1, position - index));
+
+  const data = current?.data ?? null;
+
+  return (
+    // Keep pointer presses here from dragging (and grading) a card around it
+    <div
+      className="flex flex-col items-center gap-2"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      {entries && entries.length > 1 && (
+        <div className="flex gap-1">
+          {entries.map((entry, index) => (
+            <Button
+              key={`${index}-${entry.character}`}
+              size="sm"
+              variant={index === selected ? 'secondary' : 'ghost'}
+              className={entry.data ? '' : 'text-gray-400'}
+              onClick={() => handleSelect(index)}
+            >
+              {entry.character}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <svg
+        viewBox={`0 0 ${STROKE_BOX_SIZE} ${STROKE_BOX_SIZE}`}
+        width={size}
+        height={size}
+        className="border rounded-md bg-white"
+        role="img"
+        aria-label={
+          !current ? 'Loading stroke order'
+            : data ? `Stroke order of ${current.character}`
+              : `No stroke data for ${current.character}`
+        }
+      >
+        {/* 米字格 guide lines */}
+        <g stroke="#e5e7eb" strokeWidth={4} strokeDasharray="24 24">
+          <line x1={0} y1={0} x2={STROKE_BOX_SIZE} y2={STROKE_BOX_SIZE} />
+          <line x1={STROKE_BOX_SIZE} y1={0} x2={0} y2={STROKE_BOX_SIZE} />
+          <line x1={STROKE_BOX_SIZE / 2} y1={0} x2={STROKE_BOX_SIZE / 2} y2={STROKE_BOX_SIZE} />
+          <line x1={0} y1={STROKE_BOX_SIZE / 2} x2={STROKE_BOX_SIZE} y2={STROKE_BOX_SIZE / 2} />
+        </g>
+
+        {/* Hanzi missing from the dataset are shown as plain text */}
+        {current && !data && (
+          <text
+            x={STROKE_BOX_SIZE / 2}
+            y={STROKE_BOX_SIZE / 2}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fontSize={640}
+            fill="#d1d5db"
+          >
+            {current.character}
+          </text>
+        )}
+
+        {data && (
+          <>
+            <defs>
+              {data.strokes.map((outline, index) => (
+                <clipPath key={index} id={`${clipId}-${index}`}>
+                  <path d={outline} transform={OUTLINE_TRANSFORM} />
+                </clipPath>
+              ))}
+            </defs>
+
+            {/* Every stroke's outline, to trace the animation over */}
+            {showOutline && (
+              <g fill="none" stroke="#d1d5db" strokeWidth={6} transform={OUTLINE_TRANSFORM}>
+                {data.strokes.map((outline, index) => <path key={index} d={outline} />)}
+              </g>
+            )}
+
+            {/* Strokes drawn so far, the latest one partly, revealed along their medians */}
+            <g fill="none" strokeLinecap="round" strokeLinejoin="round">
+              {data.medians.map((median, index) => {
+                const progress = strokeProgress(index);
+                if (progress === 0) return null;
+                return (
+                  <polyline
+                    key={index}
+                    points={toPolyline(median)}
+                    pathLength={1}
+                    strokeDasharray="1 1"
+                    strokeDashoffset={1 - progress}
+                    stroke={progress < 1 ? '#2563eb' : '#1f2937'}
+                    strokeWidth={REVEAL_WIDTH}
+                    clipPath={`url(#${clipId}-${index})`}
+                  />
+                );
+              })}
+            </g>
+          </>
+        )}
+      </svg>
+
+      {current && !data ? (
+        <div className="text-xs text-gray-500">No stroke data for {current.character}</div>
+      ) : (
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={handlePlay} title={isPlaying ? 'Pause' : 'Play'} disabled={!hasAnyData}>
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleStep} title="Next stroke" disabled={!hasAnyData}>
+            <StepForward size={16} />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleRestart} title="Restart" disabled={!hasAnyData}>
+            <RotateCcw size={16} />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSpeed(nextSpeed)} title="Animation speed">
+            {speed}×
+          </Button>
+          <Button
+            variant={showOutline ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setShowOutline(!showOutline)}
+            title="Show outlines"
+          >
+            <Square size={16} />
+          </Button>
+          <span className="text-xs text-gray-500 ml-1">
+            {Math.min(Math.ceil(position), total)}/{total}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
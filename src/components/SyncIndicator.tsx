@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { CloudOff, CloudUpload, Cloud } from 'lucide-react';
+import { answerOutbox, OutboxStatus } from '@/lib/answer-outbox';
+
+// Shows whether answers are still waiting to be saved, and lets failed ones be retried
+export function SyncIndicator() {
+  const [status, setStatus] = useState<OutboxStatus>(answerOutbox.getStatus());
+
+  useEffect(() => answerOutbox.subscribe(setStatus), []);
+
+  if (status.failed > 0) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-red-600"
+        title="Some answers could not be saved. Click to retry."
+        onClick={() => answerOutbox.retryFailed()}
+      >
+        <CloudOff className="w-4 h-4 mr-1" />
+        {status.failed} not saved
+      </Button>
+    );
+  }
+
+  if (status.pending > 0) {
+    return (
+      <span className="flex items-center text-sm text-gray-500 px-2" title="Saving answers">
+        <CloudUpload className={`w-4 h-4 mr-1 ${status.isSyncing ? 'animate-pulse' : ''}`} />
+        {status.pending}
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center text-gray-400 px-2" title="All answers saved">
+      <Cloud className="w-4 h-4" />
+    </span>
+  );
+}
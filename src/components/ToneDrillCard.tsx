@@ -0,0 +1,212 @@
+import { useState, useRef, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { PauseCircle, EyeOff } from 'lucide-react';
+import { Character } from '@/lib/storage';
+import { Grade, GRADE_LABELS, GRADES } from '@/lib/scheduler';
+import { AnswerTiming } from '@/lib/flashcard-logic';
+import { pinyin } from '@/lib/pinyin';
+import { toneDrill, ToneAnswer, TONES, TONE_LABELS, TONE_MARKS } from '@/lib/tones';
+import SpeakButton from '@/components/SpeakButton';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+
+interface ToneDrillCardProps {
+  character: Character;
+  // The tones picked are passed along to be logged with the answer
+  onAnswer: (grade: Grade, timing: AnswerTiming, toneAnswers?: ToneAnswer[]) => void;
+  // Changes whenever a new card is dealt, even if the same character comes back
+  cardKey?: string | number;
+  onSuspend?: () => void;
+  onBury?: () => void;
+}
+
+// Card answered by picking the tone of every syllable; the characters are always the
+// prompt, whatever the session's direction
+export default function ToneDrillCard({
+  character,
+  onAnswer,
+  cardKey,
+  onSuspend,
+  onBury
+}: ToneDrillCardProps) {
+  const syllables = pinyin.parse(character.pinyin);
+  const [chosen, setChosen] = useState<(number | null)[]>([]);
+  const [isChecked, setIsChecked] = useState(false);
+  const continueRef = useRef<HTMLButtonElement>(null);
+  // When the card was shown and the tones checked, for answer latency
+  const shownAtRef = useRef(Date.now());
+  const checkedAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setChosen(syllables.map(() => null));
+    setIsChecked(false);
+    shownAtRef.current = Date.now();
+    checkedAtRef.current = null;
+  }, [character.id, cardKey]);
+
+  useEffect(() => {
+    if (isChecked) {
+      continueRef.current?.focus();
+    }
+  }, [isChecked]);
+
+  const answers: ToneAnswer[] = syllables.map((syllable, index) => ({
+    expected: syllable.tone,
+    chosen: chosen[index] ?? 0
+  }));
+  const isComplete = syllables.length > 0 && chosen.length === syllables.length && chosen.every(tone => tone !== null);
+  const grade = toneDrill.grade(answers);
+
+  const choose = (index: number, tone: number) => {
+    if (isChecked) return;
+    setChosen(previous => previous.map((value, i) => (i === index ? tone : value)));
+  };
+
+  const handleCheck = () => {
+    if (!isComplete || isChecked) return;
+    checkedAtRef.current = Date.now();
+    setIsChecked(true);
+  };
+
+  // Time to check stands in for time to flip
+  const answer = (answerGrade: Grade) => {
+    const checkedAt = checkedAtRef.current ?? Date.now();
+    onAnswer(answerGrade, {
+      flipMs: checkedAt - shownAtRef.current,
+      answerMs: Date.now() - shownAtRef.current
+    }, isChecked ? answers : undefined);
+  };
+
+  // Keys 1-5 fill in the next syllable without a tone, Backspace clears the last one,
+  // Enter checks
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+      if (isChecked) return;
+
+      const tone = Number(e.key);
+      if (TONES.includes(tone)) {
+        const next = chosen.indexOf(null);
+        if (next !== -1) {
+          e.preventDefault();
+          choose(next, tone);
+        }
+      } else if (e.key === 'Backspace') {
+        const last = chosen.map(value => value !== null).lastIndexOf(true);
+        if (last !== -1) {
+          e.preventDefault();
+          setChosen(previous => previous.map((value, i) => (i === last ? null : value)));
+        }
+      } else if (e.key === 'Enter' && isComplete) {
+        e.preventDefault();
+        handleCheck();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [chosen, isChecked, isComplete]);
+
+  const toneStyle = (index: number, tone: number) => {
+    if (!isChecked) return '';
+    if (tone === syllables[index].tone) return '!border-green-500 !bg-green-50 text-green-700';
+    if (tone === chosen[index]) return '!border-red-500 !bg-red-50 text-red-700';
+    return 'opacity-40';
+  };
+
+  return (
+    <div className="relative w-full max-w-md mx-auto">
+      <Card className={isChecked ? 'bg-blue-50' : 'bg-white'}>
+        <CardContent className="p-8 text-center min-h-[300px] flex flex-col justify-center space-y-4">
+          <div className="flex items-center justify-center gap-2">
+            <div className="text-6xl font-bold text-gray-800">{character.chinese}</div>
+            <SpeakButton text={character.chinese} autoPlay="front" />
+          </div>
+
+          {syllables.length === 0 ? (
+            // Nothing to drill in this card's pinyin; grade it by hand
+            <div className="space-y-3">
+              <div className="text-sm text-gray-500">No pinyin syllables to drill for this card</div>
+              <div className="grid grid-cols-4 gap-2">
+                {GRADES.map(option => (
+                  <Button key={option} variant="outline" size="sm" onClick={() => answer(option)}>
+                    {GRADE_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-center gap-4">
+                {syllables.map((syllable, index) => (
+                  <div key={index} className="flex flex-col items-center gap-1">
+                    <div className="text-lg font-medium text-blue-600">
+                      {isChecked ? syllable.text : syllable.plain}
+                    </div>
+                    <div className="flex gap-1">
+                      {TONES.map(tone => (
+                        <Button
+                          key={tone}
+                          size="sm"
+                          variant={chosen[index] === tone && !isChecked ? 'secondary' : 'outline'}
+                          className={`w-8 px-0 ${toneStyle(index, tone)}`}
+                          title={`${TONE_LABELS[tone]} tone`}
+                          onClick={() => choose(index, tone)}
+                        >
+                          {TONE_MARKS[tone]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {!isChecked ? (
+                <div>
+                  <Button variant="outline" onClick={handleCheck} disabled={!isComplete}>
+                    Check
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="text-gray-700">
+                    <span className="text-blue-600 font-medium mr-3">{character.pinyin}</span>
+                    {character.english}
+                  </div>
+                  <StrokeOrderViewer text={character.chinese} size={140} />
+                  <Button ref={continueRef} onClick={() => answer(grade)}>
+                    Continue ({GRADE_LABELS[grade]})
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Suspend / bury actions */}
+          {(onSuspend || onBury) && (
+            <div className="absolute top-4 left-4 flex gap-1">
+              {onBury && (
+                <Button variant="ghost" size="sm" title="Bury until tomorrow" onClick={onBury}>
+                  <EyeOff size={16} />
+                </Button>
+              )}
+              {onSuspend && (
+                <Button variant="ghost" size="sm" title="Suspend card" onClick={onSuspend}>
+                  <PauseCircle size={16} />
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Instructions */}
+      <div className="text-center mt-4 text-sm text-gray-500">
+        Pick a tone per syllable or type 1-5 (5 for neutral), then Enter to check
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toneStorage, ToneStats, ToneStat, TONES, TONE_LABELS } from '@/lib/tones';
+
+// Tone pairs listed, weakest first
+const MAX_PAIRS_SHOWN = 6;
+
+const accuracy = (stat: ToneStat) => Math.round((stat.correct / stat.attempts) * 100);
+
+// All-time tone drill accuracy per tone and for the tone pairs missed most
+export default function ToneStatsSummary() {
+  const [stats, setStats] = useState<ToneStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    toneStorage.getStats().then(result => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!stats) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const pairs = Object.entries(stats.pairs)
+    .sort(([, a], [, b]) => accuracy(a) - accuracy(b) || b.attempts - a.attempts)
+    .slice(0, MAX_PAIRS_SHOWN);
+
+  return (
+    <div className="space-y-4 text-left">
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-2">Accuracy per tone</div>
+        <div className="grid grid-cols-5 gap-2">
+          {TONES.map(tone => {
+            const stat = stats.tones[String(tone)];
+            return (
+              <div key={tone} className="bg-gray-50 p-2 rounded-lg text-center">
+                <div className="text-lg font-bold text-gray-800">{stat ? `${accuracy(stat)}%` : 'N/A'}</div>
+                <div className="text-xs text-gray-600">{TONE_LABELS[tone]}</div>
+                {stat && <div className="text-xs text-gray-400">{stat.attempts} tries</div>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {pairs.length > 0 && (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">Hardest tone pairs</div>
+          <div className="space-y-1 text-sm">
+            {pairs.map(([pair, stat]) => (
+              <div key={pair} className="flex justify-between">
+                <span>{pair}</span>
+                <span className="text-gray-600">
+                  {accuracy(stat)}% of {stat.attempts}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useRef, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CheckCircle2, XCircle, AlertCircle, PauseCircle, EyeOff } from 'lucide-react';
+import { Character } from '@/lib/storage';
+import { Grade, GRADE_LABELS } from '@/lib/scheduler';
+import { CardDirection, AnswerTiming } from '@/lib/flashcard-logic';
+import { typedAnswer, TypedAnswerResult, DiffPart, ANSWER_FIELD_LABELS } from '@/lib/typed-answer';
+import CardPrompt from '@/components/CardPrompt';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+
+interface TypedAnswerCardProps {
+  character: Character;
+  onAnswer: (grade: Grade, timing: AnswerTiming) => void;
+  direction?: CardDirection;
+  // Changes whenever a new card is dealt, even if the same character comes back
+  cardKey?: string | number;
+  onSuspend?: () => void;
+  onBury?: () => void;
+}
+
+// What to type for each direction
+const INPUT_HINTS: Record<CardDirection, string> = {
+  'chinese-meaning': 'Type the pinyin (nǐ hǎo or ni3 hao3) or the meaning',
+  'meaning-chinese': 'Type the characters or the pinyin',
+  'pinyin-chinese': 'Type the characters',
+  listening: 'Type the characters or the meaning'
+};
+
+const VERDICT_STYLES = {
+  correct: { Icon: CheckCircle2, label: 'Correct', className: 'text-green-600' },
+  close: { Icon: AlertCircle, label: 'Almost', className: 'text-orange-500' },
+  wrong: { Icon: XCircle, label: 'Not quite', className: 'text-red-600' }
+};
+
+const DIFF_STYLES: Record<DiffPart['type'], string> = {
+  same: 'text-gray-800',
+  extra: 'text-red-600 line-through',
+  missing: 'text-green-600 underline'
+};
+
+// Card answered by typing; the answer is checked and graded automatically
+export default function TypedAnswerCard({
+  character,
+  onAnswer,
+  direction = 'chinese-meaning',
+  cardKey,
+  onSuspend,
+  onBury
+}: TypedAnswerCardProps) {
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<TypedAnswerResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const continueRef = useRef<HTMLButtonElement>(null);
+  // When the card was shown and the answer submitted, for answer latency
+  const shownAtRef = useRef(Date.now());
+  const submittedAtRef = useRef<number | null>(null);
+
+  // Start fresh for every card
+  useEffect(() => {
+    setInput('');
+    setResult(null);
+    shownAtRef.current = Date.now();
+    submittedAtRef.current = null;
+    inputRef.current?.focus();
+  }, [character.id, cardKey]);
+
+  useEffect(() => {
+    if (result) {
+      continueRef.current?.focus();
+    }
+  }, [result]);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    submittedAtRef.current = Date.now();
+    setResult(typedAnswer.check(character, input, direction));
+  };
+
+  // Time to submit stands in for time to flip
+  const handleContinue = () => {
+    if (!result || submittedAtRef.current === null) return;
+    onAnswer(result.grade, {
+      flipMs: submittedAtRef.current - shownAtRef.current,
+      answerMs: Date.now() - shownAtRef.current
+    });
+  };
+
+  const verdictStyle = result ? VERDICT_STYLES[result.verdict] : null;
+
+  return (
+    <div className="relative w-full max-w-md mx-auto">
+      <Card className={result ? 'bg-blue-50' : 'bg-white'}>
+        <CardContent className="p-8 text-center min-h-[300px] flex flex-col justify-center">
+          {!result || !verdictStyle ? (
+            <form onSubmit={handleCheck} className="space-y-4">
+              <CardPrompt character={character} direction={direction} />
+              <Input
+                ref={inputRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={INPUT_HINTS[direction]}
+                aria-label="Your answer"
+                autoComplete="off"
+                autoCapitalize="off"
+                spellCheck={false}
+              />
+              <Button type="submit" variant="outline" disabled={!input.trim()}>
+                Check
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className={`flex items-center justify-center gap-2 text-lg font-semibold ${verdictStyle.className}`}>
+                <verdictStyle.Icon size={22} />
+                {verdictStyle.label}
+                {result.note && <span className="text-sm font-normal">({result.note})</span>}
+              </div>
+
+              {/* What was typed against the closest accepted answer */}
+              {result.verdict !== 'correct' && (
+                <div className="text-sm">
+                  <div className="text-xs text-gray-500 uppercase tracking-wide mb-1">
+                    {ANSWER_FIELD_LABELS[result.field]}
+                  </div>
+                  <div className="font-mono text-lg break-all">
+                    {result.diff.map((part, index) => (
+                      <span key={index} className={DIFF_STYLES[part.type]}>{part.text}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="text-4xl font-bold text-gray-800">
+                {character.chinese}
+              </div>
+              <StrokeOrderViewer text={character.chinese} size={140} />
+              <div className="text-2xl text-blue-600 font-medium">
+                {character.pinyin}
+              </div>
+              <div className="text-xl text-gray-700">
+                {character.english}
+              </div>
+
+              <Button ref={continueRef} onClick={handleContinue} className="mt-2">
+                Continue ({GRADE_LABELS[result.grade]})
+              </Button>
+            </div>
+          )}
+
+          {/* Suspend / bury actions */}
+          {(onSuspend || onBury) && (
+            <div className="absolute top-4 left-4 flex gap-1">
+              {onBury && (
+                <Button variant="ghost" size="sm" title="Bury until tomorrow" onClick={onBury}>
+                  <EyeOff size={16} />
+                </Button>
+              )}
+              {onSuspend && (
+                <Button variant="ghost" size="sm" title="Suspend card" onClick={onSuspend}>
+                  <PauseCircle size={16} />
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Instructions */}
+      <div className="text-center mt-4 text-sm text-gray-500">
+        Press Enter to check, then Enter again to continue
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useRef, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, AlertCircle, XCircle, PauseCircle, EyeOff } from 'lucide-react';
+import { Character } from '@/lib/storage';
+import { Grade, GRADE_LABELS, GRADES } from '@/lib/scheduler';
+import { CardDirection, AnswerTiming } from '@/lib/flashcard-logic';
+import { strokeData, StrokeData } from '@/lib/strokes';
+import WritingPad, { WritingResult, HINT_AFTER_MISSES } from '@/components/WritingPad';
+import CardPrompt from '@/components/CardPrompt';
+import StrokeOrderViewer from '@/components/StrokeOrderViewer';
+
+interface WritingCardProps {
+  character: Character;
+  onAnswer: (grade: Grade, timing: AnswerTiming) => void;
+  direction?: CardDirection;
+  // Changes whenever a new card is dealt, even if the same character comes back
+  cardKey?: string | number;
+  onSuspend?: () => void;
+  onBury?: () => void;
+}
+
+const GRADE_STYLES: Partial<Record<Grade, { Icon: typeof CheckCircle2; label: string; className: string }>> = {
+  good: { Icon: CheckCircle2, label: 'Written correctly', className: 'text-green-600' },
+  hard: { Icon: AlertCircle, label: 'Written with mistakes', className: 'text-orange-500' },
+  again: { Icon: XCircle, label: 'Needed hints', className: 'text-red-600' }
+};
+
+// Needing a hint for any stroke fails the card; misses alone make it hard
+const gradeWriting = (results: WritingResult[]): Grade => {
+  if (results.some(result => result.hintsUsed > 0)) return 'again';
+  if (results.some(result => result.mistakes > 0)) return 'hard';
+  return 'good';
+};
+
+// Card answered by writing the characters stroke by stroke. The prompt never shows the
+// Chinese; characters without bundled stroke data are skipped, and a card with none at
+// all falls back to revealing the answer and grading yourself.
+export default function WritingCard({
+  character,
+  onAnswer,
+  direction = 'chinese-meaning',
+  cardKey,
+  onSuspend,
+  onBury
+}: WritingCardProps) {
+  // Stroke data of each writable character; null until loaded
+  const [strokes, setStrokes] = useState<StrokeData[] | null>(null);
+  const [results, setResults] = useState<WritingResult[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const continueRef = useRef<HTMLButtonElement>(null);
+  // When the card was shown and the writing finished, for answer latency
+  const shownAtRef = useRef(Date.now());
+  const finishedAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStrokes(null);
+    setResults([]);
+    setRevealed(false);
+    shownAtRef.current = Date.now();
+    finishedAtRef.current = null;
+
+    Promise.all(strokeData.hanzi(character.chinese).map(char => strokeData.load(char))).then(loaded => {
+      if (!cancelled) {
+        setStrokes(loaded.filter((data): data is StrokeData => data !== null));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [character.id, cardKey]);
+
+  const isFinished = strokes !== null && strokes.length > 0 && results.length === strokes.length;
+  const grade = gradeWriting(results);
+  const gradeStyle = GRADE_STYLES[grade];
+
+  useEffect(() => {
+    if (isFinished) {
+      continueRef.current?.focus();
+    }
+  }, [isFinished]);
+
+  const handleComplete = (result: WritingResult) => {
+    const next = [...results, result];
+    if (strokes && next.length === strokes.length) {
+      finishedAtRef.current = Date.now();
+    }
+    setResults(next);
+  };
+
+  // Time to finish writing stands in for time to flip
+  const answer = (answerGrade: Grade) => {
+    const finishedAt = finishedAtRef.current ?? Date.now();
+    onAnswer(answerGrade, {
+      flipMs: finishedAt - shownAtRef.current,
+      answerMs: Date.now() - shownAtRef.current
+    });
+  };
+
+  const handleReveal = () => {
+    finishedAtRef.current = Date.now();
+    setRevealed(true);
+  };
+
+  const current = strokes && !isFinished ? strokes[results.length] : null;
+
+  return (
+    <div className="relative w-full max-w-md mx-auto">
+      <Card className={isFinished || revealed ? 'bg-blue-50' : 'bg-white'}>
+        <CardContent className="p-8 text-center min-h-[300px] flex flex-col justify-center space-y-4">
+          {/* Prompt: whatever the direction shows, minus the characters to be written */}
+          {direction === 'listening' ? (
+            <CardPrompt character={character} direction={direction} />
+          ) : (
+            <div>
+              {direction !== 'meaning-chinese' && (
+                <div className="text-3xl font-medium text-blue-600">{character.pinyin}</div>
+              )}
+              {direction !== 'pinyin-chinese' && (
+                <div className="text-xl text-gray-700">{character.english}</div>
+              )}
+            </div>
+          )}
+
+          {strokes === null && <div className="text-gray-500">Loading strokes...</div>}
+
+          {current && (
+            <>
+              <WritingPad key={results.length} data={current} onComplete={handleComplete} />
+              {strokes && strokes.length > 1 && (
+                <div className="text-xs text-gray-500">
+                  Character {results.length + 1} of {strokes.length}
+                </div>
+              )}
+            </>
+          )}
+
+          {isFinished && gradeStyle && (
+            <div className="space-y-3">
+              <div className={`flex items-center justify-center gap-2 text-lg font-semibold ${gradeStyle.className}`}>
+                <gradeStyle.Icon size={22} />
+                {gradeStyle.label}
+              </div>
+              <div className="text-4xl font-bold text-gray-800">{character.chinese}</div>
+              {direction === 'listening' && (
+                <div className="text-gray-700">
+                  <span className="text-blue-600 font-medium mr-3">{character.pinyin}</span>
+                  {character.english}
+                </div>
+              )}
+              <StrokeOrderViewer text={character.chinese} size={140} />
+              <Button ref={continueRef} onClick={() => answer(grade)}>
+                Continue ({GRADE_LABELS[grade]})
+              </Button>
+            </div>
+          )}
+
+          {/* No stroke data for any of the characters: write on paper and grade yourself */}
+          {strokes !== null && strokes.length === 0 && (
+            !revealed ? (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-500">
+                  No stroke data for {character.chinese.length > 1 ? 'these characters' : 'this character'}.
+                  Write it down, then check.
+                </div>
+                <Button variant="outline" onClick={handleReveal}>Show answer</Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="text-4xl font-bold text-gray-800">{character.chinese}</div>
+                {direction === 'listening' && (
+                  <div className="text-gray-700">
+                    <span className="text-blue-600 font-medium mr-3">{character.pinyin}</span>
+                    {character.english}
+                  </div>
+                )}
+                <StrokeOrderViewer text={character.chinese} size={140} />
+                <div className="grid grid-cols-4 gap-2">
+                  {GRADES.map(option => (
+                    <Button key={option} variant="outline" size="sm" onClick={() => answer(option)}>
+                      {GRADE_LABELS[option]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+
+          {/* Suspend / bury actions */}
+          {(onSuspend || onBury) && (
+            <div className="absolute top-4 left-4 flex gap-1">
+              {onBury && (
+                <Button variant="ghost" size="sm" title="Bury until tomorrow" onClick={onBury}>
+                  <EyeOff size={16} />
+                </Button>
+              )}
+              {onSuspend && (
+                <Button variant="ghost" size="sm" title="Suspend card" onClick={onSuspend}>
+                  <PauseCircle size={16} />
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Instructions */}
+      <div className="text-center mt-4 text-sm text-gray-500">
+        Draw each stroke in order; after {HINT_AFTER_MISSES} misses the next stroke is shown
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { StrokeData, Point, STROKE_BOX_SIZE, STROKE_BASELINE, strokeData } from '@/lib/strokes';
+
+export interface WritingResult {
+  // Strokes drawn that did not match the next expected stroke
+  mistakes: number;
+  // Strokes the pad had to show before they were drawn correctly
+  hintsUsed: number;
+}
+
+interface WritingPadProps {
+  data: StrokeData;
+  onComplete: (result: WritingResult) => void;
+  // Side of the square pad in CSS pixels
+  size?: number;
+}
+
+// Misses on the same stroke before it is shown as a hint
+export const HINT_AFTER_MISSES = 2;
+
+// How long a rejected stroke stays on the pad, in ms
+const MISTAKE_FLASH_MS = 500;
+
+// Stroke widths in drawing box units
+const INK_WIDTH = 60;
+const HINT_WIDTH = 70;
+
+// Canvas for writing one character stroke by stroke. Each stroke is checked against the
+// next one in the stroke order as soon as the pen is lifted; matched strokes are redrawn
+// neatly, misses flash red, and repeated misses show where the stroke goes.
+export default function WritingPad({ data, onComplete, size = 280 }: WritingPadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [done, setDone] = useState(0);
+  const [misses, setMisses] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [rejected, setRejected] = useState<Point[] | null>(null);
+  // Points of the stroke being drawn; kept in a ref so pointer moves skip React renders
+  const drawingRef = useRef<Point[] | null>(null);
+
+  const total = data.medians.length;
+  const showHint = done < total && misses >= HINT_AFTER_MISSES;
+
+  // Start over when given another character
+  useEffect(() => {
+    setDone(0);
+    setMisses(0);
+    setMistakes(0);
+    setHintsUsed(0);
+    setRejected(null);
+  }, [data]);
+
+  useEffect(() => {
+    if (!rejected) return;
+    const timer = setTimeout(() => setRejected(null), MISTAKE_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [rejected]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.scale((size * ratio) / STROKE_BOX_SIZE, (size * ratio) / STROKE_BOX_SIZE);
+
+    // 米字格 guide lines
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 4;
+    ctx.setLineDash([24, 24]);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(STROKE_BOX_SIZE, STROKE_BOX_SIZE);
+    ctx.moveTo(STROKE_BOX_SIZE, 0);
+    ctx.lineTo(0, STROKE_BOX_SIZE);
+    ctx.moveTo(STROKE_BOX_SIZE / 2, 0);
+    ctx.lineTo(STROKE_BOX_SIZE / 2, STROKE_BOX_SIZE);
+    ctx.moveTo(0, STROKE_BOX_SIZE / 2);
+    ctx.lineTo(STROKE_BOX_SIZE, STROKE_BOX_SIZE / 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    const line = (points: Point[], color: string, width: number) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      points.forEach(([x, y], index) => (index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+    };
+
+    // Matched strokes, filled with their real outline
+    ctx.save();
+    // Outlines keep Make Me a Hanzi's y-up coordinates
+    ctx.translate(0, STROKE_BASELINE);
+    ctx.scale(1, -1);
+    ctx.fillStyle = '#1f2937';
+    for (let i = 0; i < done; i++) {
+      ctx.fill(new Path2D(data.strokes[i]));
+    }
+    ctx.restore();
+
+    if (showHint) {
+      const median = data.medians[done];
+      line(median, 'rgba(59, 130, 246, 0.25)', HINT_WIDTH);
+      ctx.fillStyle = '#3b82f6';
+      ctx.beginPath();
+      ctx.arc(median[0][0], median[0][1], 28, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    if (rejected) {
+      line(rejected, '#ef4444', INK_WIDTH / 2);
+    }
+
+    if (drawingRef.current) {
+      line(drawingRef.current, '#374151', INK_WIDTH / 2);
+    }
+  }, [data, done, showHint, rejected, size]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size * ratio;
+    canvas.height = size * ratio;
+    draw();
+  }, [draw, size]);
+
+  // Pointer position in drawing box units
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * STROKE_BOX_SIZE,
+      ((e.clientY - rect.top) / rect.height) * STROKE_BOX_SIZE
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (done >= total) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = [toPoint(e)];
+    draw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current.push(toPoint(e));
+    draw();
+  };
+
+  const handlePointerUp = () => {
+    const drawn = drawingRef.current;
+    drawingRef.current = null;
+    if (!drawn) return;
+
+    // Taps and tiny marks are ignored rather than counted as mistakes
+    if (drawn.length < 2) {
+      draw();
+      return;
+    }
+
+    if (strokeData.matches(drawn, data.medians[done])) {
+      const next = done + 1;
+      const hints = hintsUsed + (showHint ? 1 : 0);
+      setDone(next);
+      setMisses(0);
+      setHintsUsed(hints);
+      if (next === total) {
+        onComplete({ mistakes, hintsUsed: hints });
+      }
+    } else {
+      setMisses(misses + 1);
+      setMistakes(mistakes + 1);
+      setRejected(drawn);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <canvas
+        ref={canvasRef}
+        style={{ width: size, height: size, touchAction: 'none' }}
+        className="border rounded-md bg-white cursor-crosshair"
+        aria-label={`Writing pad for ${data.character}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="text-xs text-gray-500">
+        Stroke {Math.min(done + 1, total)} of {total}
+        {mistakes > 0 && <span className="text-red-500 ml-2">{mistakes} missed</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { NewCharacter } from '@/lib/storage';
+
+// Common words used as wrong quiz options when a deck is too small to supply its own
+export const DISTRACTOR_POOL: NewCharacter[] = [
+  { chinese: '你好', pinyin: 'nǐ hǎo', english: 'hello', category: 'Greetings' },
+  { chinese: '再见', pinyin: 'zài jiàn', english: 'goodbye', category: 'Greetings' },
+  { chinese: '谢谢', pinyin: 'xiè xie', english: 'thank you', category: 'Greetings' },
+  { chinese: '对不起', pinyin: 'duì bu qǐ', english: 'sorry', category: 'Greetings' },
+  { chinese: '早上好', pinyin: 'zǎo shang hǎo', english: 'good morning', category: 'Greetings' },
+  { chinese: '水', pinyin: 'shuǐ', english: 'water', category: 'Nature' },
+  { chinese: '火', pinyin: 'huǒ', english: 'fire', category: 'Nature' },
+  { chinese: '山', pinyin: 'shān', english: 'mountain', category: 'Nature' },
+  { chinese: '树', pinyin: 'shù', english: 'tree', category: 'Nature' },
+  { chinese: '花', pinyin: 'huā', english: 'flower', category: 'Nature' },
+  { chinese: '月', pinyin: 'yuè', english: 'moon', category: 'Nature' },
+  { chinese: '日', pinyin: 'rì', english: 'sun', category: 'Nature' },
+  { chinese: '一', pinyin: 'yī', english: 'one', category: 'Numbers' },
+  { chinese: '二', pinyin: 'èr', english: 'two', category: 'Numbers' },
+  { chinese: '三', pinyin: 'sān', english: 'three', category: 'Numbers' },
+  { chinese: '四', pinyin: 'sì', english: 'four', category: 'Numbers' },
+  { chinese: '五', pinyin: 'wǔ', english: 'five', category: 'Numbers' },
+  { chinese: '十', pinyin: 'shí', english: 'ten', category: 'Numbers' },
+  { chinese: '百', pinyin: 'bǎi', english: 'hundred', category: 'Numbers' },
+  { chinese: '米饭', pinyin: 'mǐ fàn', english: 'rice', category: 'Food' },
+  { chinese: '茶', pinyin: 'chá', english: 'tea', category: 'Food' },
+  { chinese: '面条', pinyin: 'miàn tiáo', english: 'noodles', category: 'Food' },
+  { chinese: '苹果', pinyin: 'píng guǒ', english: 'apple', category: 'Food' },
+  { chinese: '鸡蛋', pinyin: 'jī dàn', english: 'egg', category: 'Food' },
+  { chinese: '家', pinyin: 'jiā', english: 'home', category: 'Home' },
+  { chinese: '门', pinyin: 'mén', english: 'door', category: 'Home' },
+  { chinese: '桌子', pinyin: 'zhuō zi', english: 'table', category: 'Home' },
+  { chinese: '椅子', pinyin: 'yǐ zi', english: 'chair', category: 'Home' },
+  { chinese: '妈妈', pinyin: 'mā ma', english: 'mother', category: 'Family' },
+  { chinese: '爸爸', pinyin: 'bà ba', english: 'father', category: 'Family' },
+  { chinese: '朋友', pinyin: 'péng you', english: 'friend', category: 'Family' },
+  { chinese: '老师', pinyin: 'lǎo shī', english: 'teacher', category: 'Work' },
+  { chinese: '学生', pinyin: 'xué sheng', english: 'student', category: 'Work' },
+  { chinese: '工作', pinyin: 'gōng zuò', english: 'work', category: 'Work' },
+  { chinese: '今天', pinyin: 'jīn tiān', english: 'today', category: 'Time' },
+  { chinese: '明天', pinyin: 'míng tiān', english: 'tomorrow', category: 'Time' },
+  { chinese: '昨天', pinyin: 'zuó tiān', english: 'yesterday', category: 'Time' },
+  { chinese: '大', pinyin: 'dà', english: 'big', category: 'Adjectives' },
+  { chinese: '小', pinyin: 'xiǎo', english: 'small', category: 'Adjectives' },
+  { chinese: '好', pinyin: 'hǎo', english: 'good', category: 'Adjectives' },
+  { chinese: '吃', pinyin: 'chī', english: 'to eat', category: 'Verbs' },
+  { chinese: '喝', pinyin: 'hē', english: 'to drink', category: 'Verbs' },
+  { chinese: '看', pinyin: 'kàn', english: 'to look', category: 'Verbs' },
+  { chinese: '去', pinyin: 'qù', english: 'to go', category: 'Verbs' },
+  { chinese: '来', pinyin: 'lái', english: 'to come', category: 'Verbs' },
+  { chinese: '中国', pinyin: 'zhōng guó', english: 'China', category: 'Places' },
+  { chinese: '学校', pinyin: 'xué xiào', english: 'school', category: 'Places' },
+  { chinese: '医院', pinyin: 'yī yuàn', english: 'hospital', category: 'Places' }
+];
+
+// Characters that are easily confused with each other at a glance
+export const LOOKALIKE_GROUPS: string[] = [
+  '人入八',
+  '大太犬天夫',
+  '日曰目旦',
+  '土士王',
+  '王玉主',
+  '未末',
+  '己已巳',
+  '木本术禾',
+  '千干于午牛',
+  '刀力万',
+  '白百自',
+  '田由甲申',
+  '口回',
+  '贝见',
+  '今令',
+  '休体',
+  '问间',
+  '买卖',
+  '鸟乌',
+  '找我',
+  '住往',
+  '们门'
+];
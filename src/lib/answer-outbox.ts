@@ -0,0 +1,244 @@
+import { supabase } from './supabase';
+import { storage, Character, RecordedAnswer, ReviewContext } from './storage';
+import { Grade } from './scheduler';
+import { reviveDates } from './session-store';
+
+// An answer waiting to be written to Supabase
+interface OutboxEntry {
+  id: string;
+  // The card as it was when answered, used to compute the new schedule
+  character: Character;
+  grade: Grade;
+  context: ReviewContext;
+  attempts: number;
+  // Set once retries are used up; failed answers wait for a manual retry
+  failed: boolean;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  isSyncing: boolean;
+}
+
+const LOCAL_KEY_PREFIX = 'shynese.outbox.';
+
+// Answers written in parallel per round (at most one per card, to keep each card in order)
+const BATCH_SIZE = 10;
+// Short wait after an answer so quick answers are written together
+const FLUSH_DELAY_MS = 500;
+// Backoff after a failed write: 2s, 4s, 8s ... capped at a minute
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60 * 1000;
+const MAX_ATTEMPTS = 6;
+
+let userId: string | null = null;
+let entries: OutboxEntry[] = [];
+let isSyncing = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let currentFlush: Promise<void> | null = null;
+const listeners = new Set<(status: OutboxStatus) => void>();
+// Callers waiting for a particular answer to be written (this page load only)
+const waiters = new Map<string, (recorded: RecordedAnswer | null) => void>();
+// Written answers, kept so they can still be undone
+const recordedAnswers = new Map<string, RecordedAnswer>();
+
+const loadEntries = (id: string): OutboxEntry[] => {
+  try {
+    const raw = localStorage.getItem(LOCAL_KEY_PREFIX + id);
+    return raw ? (JSON.parse(raw, reviveDates) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Error reading answer outbox:', error);
+    return [];
+  }
+};
+
+const persist = () => {
+  if (!userId) return;
+  try {
+    localStorage.setItem(LOCAL_KEY_PREFIX + userId, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving answer outbox:', error);
+  }
+};
+
+const getStatus = (): OutboxStatus => ({
+  pending: entries.filter(entry => !entry.failed).length,
+  failed: entries.filter(entry => entry.failed).length,
+  isSyncing
+});
+
+const notify = () => {
+  const status = getStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+const settle = (id: string, recorded: RecordedAnswer | null) => {
+  waiters.get(id)?.(recorded);
+  waiters.delete(id);
+};
+
+const scheduleFlush = (delay: number) => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+  }
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    answerOutbox.flush();
+  }, delay);
+};
+
+// Pick up answers left over from an earlier visit once we know who is signed in
+supabase.auth.onAuthStateChange((_event, session) => {
+  const nextUserId = session?.user.id ?? null;
+  if (nextUserId === userId) return;
+
+  userId = nextUserId;
+  entries = userId ? loadEntries(userId) : [];
+  notify();
+  if (entries.length > 0) {
+    scheduleFlush(0);
+  }
+});
+
+window.addEventListener('online', () => scheduleFlush(0));
+
+export const answerOutbox = {
+  // Queue an answer to be written in the background. `recorded` resolves once it has
+  // been written, or with null if it was taken back or could not be written.
+  enqueue(character: Character, grade: Grade, context: ReviewContext = {}): { id: string; recorded: Promise<RecordedAnswer | null> } {
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      character,
+      grade,
+      context: { ...context, answeredAt: context.answeredAt ?? new Date() },
+      attempts: 0,
+      failed: false
+    };
+
+    entries = [...entries, entry];
+    persist();
+    notify();
+
+    const recorded = new Promise<RecordedAnswer | null>(resolve => waiters.set(entry.id, resolve));
+    scheduleFlush(FLUSH_DELAY_MS);
+    return { id: entry.id, recorded };
+  },
+
+  // Write queued answers now. Concurrent calls share the same run.
+  flush(): Promise<void> {
+    if (!currentFlush) {
+      currentFlush = this.writePending().finally(() => {
+        currentFlush = null;
+      });
+    }
+    return currentFlush;
+  },
+
+  async writePending(): Promise<void> {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+
+    isSyncing = true;
+    notify();
+    let retryDelay: number | null = null;
+
+    try {
+      while (userId && retryDelay === null) {
+        // Oldest answer of each card first, so answers to the same card stay in order
+        const seen = new Set<string>();
+        const batch = entries
+          .filter(entry => {
+            if (entry.failed || seen.has(entry.character.id)) return false;
+            seen.add(entry.character.id);
+            return true;
+          })
+          .slice(0, BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        const results = await Promise.all(
+          // The entry id goes along as the answer's key, so a write whose response was
+          // lost is not applied again when retried
+          batch.map(entry => storage.recordAnswer(entry.character, entry.grade, { ...entry.context, clientId: entry.id }))
+        );
+
+        batch.forEach((entry, index) => {
+          const recorded = results[index];
+          if (recorded) {
+            entries = entries.filter(other => other.id !== entry.id);
+            recordedAnswers.set(entry.id, recorded);
+            settle(entry.id, recorded);
+          }
+        });
+
+        // Failed writes are retried after a backoff; the rest of the queue waits with them
+        const attempted = new Set(batch.filter((_, index) => !results[index]).map(entry => entry.id));
+        entries = entries.map(entry => {
+          if (!attempted.has(entry.id)) return entry;
+          const attempts = entry.attempts + 1;
+          return { ...entry, attempts, failed: attempts >= MAX_ATTEMPTS };
+        });
+
+        for (const entry of entries.filter(other => attempted.has(other.id))) {
+          if (entry.failed) {
+            settle(entry.id, null);
+          } else {
+            const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (entry.attempts - 1));
+            retryDelay = retryDelay === null ? delay : Math.min(retryDelay, delay);
+          }
+        }
+
+        persist();
+        notify();
+      }
+    } finally {
+      isSyncing = false;
+      notify();
+    }
+
+    if (retryDelay !== null) {
+      scheduleFlush(retryDelay);
+    }
+  },
+
+  // Take back an answer (undo). Returns the written answer so the caller can revert it,
+  // or null if it never reached Supabase and has simply been dropped from the queue.
+  async revoke(id: string): Promise<RecordedAnswer | null> {
+    if (currentFlush) {
+      await currentFlush;
+    }
+
+    if (entries.some(entry => entry.id === id)) {
+      entries = entries.filter(entry => entry.id !== id);
+      persist();
+      notify();
+      settle(id, null);
+      return null;
+    }
+
+    const recorded = recordedAnswers.get(id) ?? null;
+    recordedAnswers.delete(id);
+    return recorded;
+  },
+
+  // Give answers that ran out of retries another go
+  retryFailed(): Promise<void> {
+    entries = entries.map(entry => (entry.failed ? { ...entry, attempts: 0, failed: false } : entry));
+    persist();
+    notify();
+    return this.flush();
+  },
+
+  getStatus,
+
+  // Follow the queue's status; returns an unsubscribe function
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    listeners.add(listener);
+    listener(getStatus());
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -1,77 +1,446 @@
 import { Character } from './storage';
+import { Grade, GRADES, scheduler, QueueLimits } from './scheduler';
+import { DEFAULT_SETTINGS } from './settings';
+
+const MINUTE_MS = 60 * 1000;
+
+// In cram mode a missed card comes back after this many other cards
+const CRAM_REQUEUE_GAP = 4;
+
+// How the cards of a session are presented; recorded with every review
+export type StudyMode = 'flashcard' | 'typed' | 'quiz' | 'writing' | 'tones';
+
+export const STUDY_MODE_LABELS: Record<StudyMode, string> = {
+  flashcard: 'Flashcards',
+  typed: 'Type the answer',
+  quiz: 'Multiple choice',
+  writing: 'Writing',
+  tones: 'Tone drill'
+};
+
+// Which side of the card is the prompt; listening cards only play the word aloud
+export type CardDirection = 'chinese-meaning' | 'meaning-chinese' | 'pinyin-chinese' | 'listening';
+
+export const CARD_DIRECTION_LABELS: Record<CardDirection, string> = {
+  'chinese-meaning': 'Chinese → meaning',
+  'meaning-chinese': 'Meaning → Chinese',
+  'pinyin-chinese': 'Pinyin → Chinese',
+  listening: 'Listening'
+};
+
+// How cards are picked for a session
+export type SessionOrder = 'priority' | 'random' | 'oldest-reviewed' | 'newest-added';
+
+export const SESSION_ORDER_LABELS: Record<SessionOrder, string> = {
+  priority: 'Due first (spaced repetition)',
+  random: 'Random shuffle',
+  'oldest-reviewed': 'Least recently reviewed',
+  'newest-added': 'Newest added'
+};
+
+// Choices made in the session setup dialog
+export interface SessionConfig {
+  size: number;
+  order: SessionOrder;
+  direction: CardDirection;
+  mode: StudyMode;
+  // Practise without touching the long-term schedule
+  cram: boolean;
+}
+
+// Relative share of a multi-category session given to each category
+export type CategoryWeights = Record<string, number>;
+
+// How long the learner took on a card, in milliseconds
+export interface AnswerTiming {
+  // From the card being shown to it being flipped; null if answered without flipping
+  flipMs: number | null;
+  // From the card being shown to it being graded
+  answerMs: number;
+}
+
+// A card waiting to be shown (again) in the session
+export interface SessionCard {
+  character: Character;
+  // Position in the learning or relearning steps; null until first answered this session
+  step: number | null;
+  relearning: boolean;
+  // Earliest time (epoch ms) the card may be shown again
+  dueAt: number;
+}
+
+export interface SessionOptions {
+  mode?: StudyMode;
+  direction?: CardDirection;
+  cram?: boolean;
+  // Categories the cards were drawn from; empty means all categories
+  categories?: string[];
+  // Intraday steps in minutes for new cards and for lapsed reviews
+  learningSteps?: number[];
+  relearningSteps?: number[];
+  // Learning steps of categories whose preset overrides them
+  categoryLearningSteps?: Record<string, number[]>;
+  // Correct answers recalled slower than this count as "Hard"; 0 turns it off
+  slowRecallSeconds?: number;
+}
 
 export interface StudySession {
-  characters: Character[];
-  currentIndex: number;
+  id: string;
+  mode: StudyMode;
+  direction: CardDirection;
+  // Cram sessions only track answers in memory; nothing is saved to the characters
+  // or reviews tables
+  cram: boolean;
+  categories: string[];
+  // Cards not yet shown this session, in order
+  queue: SessionCard[];
+  // Cards being (re)learned, shown again once their step has elapsed
+  learning: SessionCard[];
+  current: SessionCard | null;
+  learningSteps: number[];
+  relearningSteps: number[];
+  categoryLearningSteps: Record<string, number[]>;
+  slowRecallMs: number;
   totalCards: number;
+  graduatedCards: number;
+  answeredCount: number;
   correctAnswers: number;
   incorrectAnswers: number;
+  gradeCounts: Record<Grade, number>;
+  // Answer latency totals, for averages in the results
+  totalFlipMs: number;
+  flipCount: number;
+  totalAnswerMs: number;
+  timedAnswers: number;
+  // Correct answers downgraded to "Hard" for slow recall
+  slowAnswers: number;
 }
 
+// Fisher-Yates shuffle into a new array
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
 export const flashcardLogic = {
+  // Label for a set of session categories, e.g. "Food + Travel"
+  describeCategories(categories: string[]): string {
+    return categories.length === 0 ? 'All Categories' : categories.join(' + ');
+  },
+
+  // Pick and order the cards for a session. "Due first" follows the scheduler and the
+  // daily limits of each category (cram sessions skip the limits and take every card, most urgent first);
+  // the other orders draw from every available card for extra practice.
+  // With weights for several categories, each gets its share of the session and the
+  // cards are interleaved so one large category does not crowd out the rest.
+  selectCards(
+    characters: Character[],
+    config: SessionConfig,
+    limits: QueueLimits,
+    weights: CategoryWeights = {},
+    now: Date = new Date()
+  ): Character[] {
+    const available = characters.filter(character => scheduler.isAvailable(character, now));
+    let ordered: Character[];
+
+    switch (config.order) {
+      case 'random':
+        ordered = shuffle(available);
+        break;
+      case 'oldest-reviewed':
+        ordered = [...available].sort((a, b) => a.lastReviewed.getTime() - b.lastReviewed.getTime());
+        break;
+      case 'newest-added':
+        ordered = [...available].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        break;
+      default:
+        ordered = config.cram
+          ? scheduler.sortByPriority(available, limits.settings, now)
+          : scheduler.buildDeckQueue(available, limits, now);
+    }
+
+    if (Object.keys(weights).length > 1) {
+      return this.interleaveByWeight(ordered, weights, config.size);
+    }
+    return ordered.slice(0, config.size);
+  },
+
+  // Split a session size between categories in proportion to their weights. A category
+  // with fewer cards than its share gives the rest to the others.
+  allocateQuotas(available: Record<string, number>, weights: CategoryWeights, size: number): Record<string, number> {
+    const quotas: Record<string, number> = {};
+    let remaining = size;
+    let open = Object.keys(weights).filter(category => weights[category] > 0 && (available[category] ?? 0) > 0);
+
+    // Categories that cannot fill their share take everything they have
+    let capped = true;
+    while (capped && open.length > 0) {
+      capped = false;
+      const totalWeight = open.reduce((sum, category) => sum + weights[category], 0);
+      for (const category of open) {
+        if (available[category] <= (remaining * weights[category]) / totalWeight) {
+          quotas[category] = available[category];
+          remaining -= available[category];
+          open = open.filter(other => other !== category);
+          capped = true;
+          break;
+        }
+      }
+    }
+
+    // The rest share what is left, rounding by largest remainder
+    const totalWeight = open.reduce((sum, category) => sum + weights[category], 0);
+    const shares = open.map(category => ({ category, share: (remaining * weights[category]) / totalWeight }));
+    for (const { category, share } of shares) {
+      quotas[category] = Math.floor(share);
+    }
+    let leftover = remaining - shares.reduce((sum, { category }) => sum + quotas[category], 0);
+    for (const { category } of [...shares].sort((a, b) => (b.share % 1) - (a.share % 1))) {
+      if (leftover <= 0) break;
+      quotas[category]++;
+      leftover--;
+    }
+
+    return quotas;
+  },
+
+  // Take each category's quota from the front of its cards and merge them so every
+  // category is spread evenly through the session
+  interleaveByWeight(characters: Character[], weights: CategoryWeights, size: number): Character[] {
+    const groups: Record<string, Character[]> = {};
+    for (const character of characters) {
+      if (!(character.category in weights)) continue;
+      groups[character.category] = [...(groups[character.category] ?? []), character];
+    }
+
+    const available = Object.fromEntries(
+      Object.entries(groups).map(([category, cards]) => [category, cards.length])
+    );
+    const quotas: Record<string, number> = this.allocateQuotas(available, weights, size);
+    const taken: Record<string, number> = {};
+    const total = Object.values(quotas).reduce((sum, quota) => sum + quota, 0);
+    const result: Character[] = [];
+
+    while (result.length < total) {
+      // Next card comes from the category furthest behind its share
+      let next: string | null = null;
+      for (const category of Object.keys(quotas)) {
+        const count = taken[category] ?? 0;
+        if (count >= quotas[category]) continue;
+        if (next === null || (count + 0.5) / quotas[category] < ((taken[next] ?? 0) + 0.5) / quotas[next]) {
+          next = category;
+        }
+      }
+      if (next === null) break;
+      result.push(groups[next][taken[next] ?? 0]);
+      taken[next] = (taken[next] ?? 0) + 1;
+    }
+
+    return result;
+  },
+
   // Create a new study session
-  createSession(characters: Character[]): StudySession {
+  createSession(characters: Character[], options: SessionOptions = {}): StudySession {
+    const queue = characters.map(character => ({
+      character,
+      step: null,
+      relearning: false,
+      dueAt: 0
+    }));
+
     return {
-      characters: [...characters], // Create a copy
-      currentIndex: 0,
+      id: crypto.randomUUID(),
+      mode: options.mode ?? 'flashcard',
+      direction: options.direction ?? 'chinese-meaning',
+      cram: options.cram ?? false,
+      categories: options.categories ?? [],
+      queue: queue.slice(1),
+      learning: [],
+      current: queue[0] ?? null,
+      learningSteps: options.learningSteps ?? DEFAULT_SETTINGS.learningSteps,
+      relearningSteps: options.relearningSteps ?? DEFAULT_SETTINGS.relearningSteps,
+      categoryLearningSteps: options.categoryLearningSteps ?? {},
+      slowRecallMs: (options.slowRecallSeconds ?? DEFAULT_SETTINGS.slowRecallSeconds) * 1000,
       totalCards: characters.length,
+      graduatedCards: 0,
+      answeredCount: 0,
       correctAnswers: 0,
-      incorrectAnswers: 0
+      incorrectAnswers: 0,
+      gradeCounts: { again: 0, hard: 0, good: 0, easy: 0 },
+      totalFlipMs: 0,
+      flipCount: 0,
+      totalAnswerMs: 0,
+      timedAnswers: 0,
+      slowAnswers: 0
     };
   },
 
   // Get current character in session
   getCurrentCharacter(session: StudySession): Character | null {
-    if (session.currentIndex >= session.characters.length) {
+    return session.current?.character ?? null;
+  },
+
+  // Whether the current card is a repeat inside its learning steps rather than
+  // its first showing of the session
+  isLearningStep(session: StudySession): boolean {
+    return session.current !== null && session.current.step !== null;
+  },
+
+  // Where a card goes after being answered: the next learning step, or null once it graduates
+  advanceCard(session: StudySession, card: SessionCard, grade: Grade, now: number): SessionCard | null {
+    let step: number;
+    let relearning = card.relearning;
+
+    if (card.step === null) {
+      if (scheduler.isNew(card.character)) {
+        // New card: Again/Hard start the learning steps, Good skips the first, Easy graduates
+        if (grade === 'easy') return null;
+        step = grade === 'good' ? 1 : 0;
+      } else {
+        // Review card: only a lapse sends it into relearning
+        if (grade !== 'again') return null;
+        relearning = true;
+        step = 0;
+      }
+    } else {
+      if (grade === 'easy') return null;
+      step = grade === 'again' ? 0 : grade === 'hard' ? card.step : card.step + 1;
+    }
+
+    // Sessions saved before presets existed have no per-category steps
+    const steps = relearning
+      ? session.relearningSteps
+      : session.categoryLearningSteps?.[card.character.category] ?? session.learningSteps;
+    if (step >= steps.length) {
       return null;
     }
-    return session.characters[session.currentIndex];
-  },
 
-  // Move to next character
-  nextCharacter(session: StudySession): StudySession {
     return {
-      ...session,
-      currentIndex: session.currentIndex + 1
+      ...card,
+      step,
+      relearning,
+      dueAt: now + steps[step] * MINUTE_MS
     };
   },
 
-  // Record answer and move to next
-  recordAnswerAndNext(session: StudySession, isCorrect: boolean): StudySession {
-    const newSession = {
+  // Pick the next card: a learning card whose step has elapsed, otherwise the next unseen
+  // card, otherwise the learning card due soonest (so the session never stalls)
+  pickNext(queue: SessionCard[], learning: SessionCard[], now: number) {
+    const sortedLearning = [...learning].sort((a, b) => a.dueAt - b.dueAt);
+
+    if (sortedLearning.length > 0 && (sortedLearning[0].dueAt <= now || queue.length === 0)) {
+      return { current: sortedLearning[0], queue, learning: sortedLearning.slice(1) };
+    }
+
+    return { current: queue[0] ?? null, queue: queue.slice(1), learning: sortedLearning };
+  },
+
+  // Grade that counts for scheduling: a Good or Easy answer that took too long to
+  // recall (time to flip, or to answer if the card was never flipped) becomes Hard
+  effectiveGrade(session: StudySession, grade: Grade, timing: AnswerTiming | null): Grade {
+    if (!timing || session.slowRecallMs <= 0 || (grade !== 'good' && grade !== 'easy')) {
+      return grade;
+    }
+    const recallMs = timing.flipMs ?? timing.answerMs;
+    return recallMs > session.slowRecallMs ? 'hard' : grade;
+  },
+
+  // Record answer and move to next. The given grade is adjusted for slow recall.
+  recordAnswerAndNext(
+    session: StudySession,
+    answeredGrade: Grade,
+    timing: AnswerTiming | null = null,
+    now: number = Date.now()
+  ): StudySession {
+    if (!session.current) {
+      return session;
+    }
+
+    const grade = this.effectiveGrade(session, answeredGrade, timing);
+    const isCorrect = scheduler.isCorrect(grade);
+    let requeued: SessionCard | null;
+    let queue = session.queue;
+    let learning = session.learning;
+
+    if (session.cram) {
+      // Cram: a miss goes back a few cards later, anything else is done for this session
+      requeued = isCorrect ? null : { ...session.current, step: 0 };
+      if (requeued) {
+        const position = Math.min(CRAM_REQUEUE_GAP, queue.length);
+        queue = [...queue.slice(0, position), requeued, ...queue.slice(position)];
+      }
+    } else {
+      requeued = this.advanceCard(session, session.current, grade, now);
+      if (requeued) {
+        learning = [...learning, requeued];
+      }
+    }
+
+    return {
       ...session,
-      currentIndex: session.currentIndex + 1,
+      ...this.pickNext(queue, learning, now),
+      graduatedCards: requeued ? session.graduatedCards : session.graduatedCards + 1,
+      answeredCount: session.answeredCount + 1,
       correctAnswers: isCorrect ? session.correctAnswers + 1 : session.correctAnswers,
-      incorrectAnswers: isCorrect ? session.incorrectAnswers : session.incorrectAnswers + 1
+      incorrectAnswers: isCorrect ? session.incorrectAnswers : session.incorrectAnswers + 1,
+      gradeCounts: { ...session.gradeCounts, [grade]: session.gradeCounts[grade] + 1 },
+      totalFlipMs: session.totalFlipMs + (timing?.flipMs ?? 0),
+      flipCount: timing && timing.flipMs !== null ? session.flipCount + 1 : session.flipCount,
+      totalAnswerMs: session.totalAnswerMs + (timing?.answerMs ?? 0),
+      timedAnswers: timing ? session.timedAnswers + 1 : session.timedAnswers,
+      slowAnswers: grade !== answeredGrade ? session.slowAnswers + 1 : session.slowAnswers
     };
+  },
 
-    return newSession;
+  // Drop the current card from the session without answering it (e.g. suspended or buried)
+  removeCurrent(session: StudySession, now: number = Date.now()): StudySession {
+    if (!session.current) {
+      return session;
+    }
+
+    return {
+      ...session,
+      ...this.pickNext(session.queue, session.learning, now),
+      totalCards: session.totalCards - 1
+    };
   },
 
-  // Check if session is complete
+  // Check if session is complete: every card has graduated
   isSessionComplete(session: StudySession): boolean {
-    return session.currentIndex >= session.characters.length;
+    return session.current === null;
   },
 
   // Get session progress percentage
   getProgress(session: StudySession): number {
     if (session.totalCards === 0) return 0;
-    return Math.round((session.currentIndex / session.totalCards) * 100);
+    return Math.round((session.graduatedCards / session.totalCards) * 100);
   },
 
   // Get session statistics
   getStats(session: StudySession) {
-    const accuracy = session.totalCards > 0 
-      ? Math.round((session.correctAnswers / (session.correctAnswers + session.incorrectAnswers)) * 100) 
+    const accuracy = session.answeredCount > 0
+      ? Math.round((session.correctAnswers / (session.correctAnswers + session.incorrectAnswers)) * 100)
       : 0;
 
     return {
       total: session.totalCards,
-      completed: session.currentIndex,
+      completed: session.graduatedCards,
+      answered: session.answeredCount,
+      // Cards still to be repeated (cram misses wait in the main queue)
+      learning: [...session.queue, ...session.learning].filter(card => card.step !== null).length
+        + (this.isLearningStep(session) ? 1 : 0),
       correct: session.correctAnswers,
       incorrect: session.incorrectAnswers,
       accuracy: isNaN(accuracy) ? 0 : accuracy,
-      remaining: session.totalCards - session.currentIndex
+      remaining: session.totalCards - session.graduatedCards,
+      grades: GRADES.map(grade => ({ grade, count: session.gradeCounts[grade] })),
+      averageFlipMs: session.flipCount > 0 ? session.totalFlipMs / session.flipCount : null,
+      averageAnswerMs: session.timedAnswers > 0 ? session.totalAnswerMs / session.timedAnswers : null,
+      slowAnswers: session.slowAnswers
     };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,110 @@
+import { addDays, startOfDay } from 'date-fns';
+import { Character } from './storage';
+import { scheduler, QueueLimits } from './scheduler';
+import { UserSettings } from './settings';
+
+// Reviews and new cards expected on one day of the forecast
+export interface ForecastDay {
+  date: Date;
+  reviews: number;
+  newCards: number;
+  // Reviews due that day but held over by the daily review limit
+  overdue: number;
+}
+
+export interface ForecastOptions {
+  days: number;
+  // Scheduler settings to simulate with (algorithm, retention, daily limits)
+  settings: UserSettings;
+  // Settings of the categories that have a preset, as for the real queue
+  deckSettings?: Record<string, UserSettings>;
+  // Keep introducing new cards after the existing new ones run out, as if more are added
+  assumeNewCardsAdded?: boolean;
+  // Seed for the simulated answers, so the same inputs give the same forecast
+  seed?: number;
+}
+
+// Small seeded random generator (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const forecast = {
+  // Project the daily workload by replaying the real scheduler on copies of the cards.
+  // Each day's queue is built as for a study session, with every category's own limits;
+  // pass one copy per direction a card is studied in to count every direction's reviews.
+  // A review is recalled with the card's predicted retrievability and graded Good, or
+  // forgotten and graded Again; new cards are graded Good. Nothing is saved.
+  simulate(characters: Character[], options: ForecastOptions): ForecastDay[] {
+    const { days, settings, deckSettings = {}, assumeNewCardsAdded = false, seed = 1 } = options;
+    const random = createRandom(seed);
+    const today = startOfDay(new Date());
+    const limits: QueueLimits = { settings, deckSettings, progressByCategory: {} };
+
+    let cards = characters
+      .filter(character => !character.suspended)
+      .map(character => ({ ...character }));
+
+    const result: ForecastDay[] = [];
+
+    for (let day = 0; day < days; day++) {
+      // Answer everything at midday; reviews count as due if due by the end of the day
+      const date = addDays(today, day);
+      const now = new Date(date.getTime() + 12 * 60 * 60 * 1000);
+      const endOfDay = new Date(addDays(date, 1).getTime() - 1);
+
+      // Top every category up to its daily new cards, as if more were being added
+      if (assumeNewCardsAdded) {
+        for (const group of scheduler.groupByDeck(cards, limits)) {
+          const shortfall = group.settings.newCardsPerDay - group.cards.filter(card => scheduler.isNew(card)).length;
+          for (let i = 0; i < shortfall; i++) {
+            cards.push({
+              ...group.cards[0],
+              ...scheduler.initialState(now),
+              id: `forecast-${day}-${i}-${group.cards[0].category}`,
+              buriedUntil: null
+            });
+          }
+        }
+      }
+
+      const answered = new Set(scheduler.buildDeckQueue(cards, limits, endOfDay));
+      const due = cards.filter(card =>
+        !scheduler.isNew(card) && scheduler.isDue(card, endOfDay) && scheduler.isAvailable(card, endOfDay)
+      );
+      let reviews = 0;
+      let newCards = 0;
+
+      cards = cards.map(card => {
+        if (!answered.has(card)) return card;
+        const cardSettings = deckSettings[card.category] ?? settings;
+
+        if (scheduler.isNew(card)) {
+          newCards++;
+          return { ...card, ...scheduler.next(scheduler.initialState(now), 3, cardSettings, now) };
+        }
+
+        reviews++;
+        const recall = scheduler.retrievability(card, now) ?? 1;
+        const rating = random() < recall ? 3 : 1;
+        return { ...card, ...scheduler.next(card, rating, cardSettings, now) };
+      });
+
+      result.push({
+        date,
+        reviews,
+        newCards,
+        overdue: due.length - reviews
+      });
+    }
+
+    return result;
+  }
+};
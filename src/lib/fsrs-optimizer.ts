@@ -0,0 +1,180 @@
+import { isSameDay } from 'date-fns';
+import { fsrs, FsrsRating, DEFAULT_FSRS_WEIGHTS, FSRS_WEIGHT_BOUNDS } from './fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One past answer, as needed to fit the FSRS weights
+export interface FsrsReview {
+  characterId: string;
+  // Each direction of a card has its own memory state
+  direction: string;
+  reviewedAt: Date;
+  rating: FsrsRating;
+}
+
+export interface OptimizeOptions {
+  iterations?: number;
+  learningRate?: number;
+  // Called after every iteration
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface OptimizeResult {
+  weights: number[];
+  // Mean log-loss of predicted recall before and after fitting
+  initialLoss: number;
+  finalLoss: number;
+  // Number of reviews that contributed a prediction to the loss
+  trainingSize: number;
+}
+
+// Messages posted by the optimiser worker
+export type OptimizerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: OptimizeResult };
+
+// Minimum number of predictable reviews before fitting is worthwhile
+export const MIN_TRAINING_REVIEWS = 50;
+
+// Sort each card's reviews chronologically, keeping only the first review of a day
+// (same-day repeats do not change long-term memory in FSRS v4.5)
+const groupByCharacter = (reviews: FsrsReview[]): FsrsReview[][] => {
+  const byCharacter = new Map<string, FsrsReview[]>();
+  for (const review of reviews) {
+    const key = `${review.characterId}:${review.direction}`;
+    const list = byCharacter.get(key) ?? [];
+    list.push(review);
+    byCharacter.set(key, list);
+  }
+
+  return [...byCharacter.values()].map(list => {
+    const sorted = [...list].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+    const kept: FsrsReview[] = [];
+    for (const review of sorted) {
+      const last = kept[kept.length - 1];
+      // Days are the user's local calendar days, compared with the last review kept
+      if (!last || !isSameDay(review.reviewedAt, last.reviewedAt)) {
+        kept.push(review);
+      }
+    }
+    return kept;
+  });
+};
+
+const clampWeights = (weights: number[]): number[] =>
+  weights.map((value, index) => {
+    const [min, max] = FSRS_WEIGHT_BOUNDS[index];
+    return Math.min(max, Math.max(min, value));
+  });
+
+// Mean binary cross-entropy between predicted retrievability and actual recall
+const logLoss = (weights: number[], histories: FsrsReview[][]): { loss: number; count: number } => {
+  let total = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let state = fsrs.initialState(history[0].rating, weights);
+
+    for (let i = 1; i < history.length; i++) {
+      const elapsedDays = (history[i].reviewedAt.getTime() - history[i - 1].reviewedAt.getTime()) / DAY_MS;
+      const predicted = Math.min(0.9999, Math.max(0.0001, fsrs.retrievability(elapsedDays, state.stability)));
+      const recalled = history[i].rating > 1;
+
+      total += recalled ? -Math.log(predicted) : -Math.log(1 - predicted);
+      count++;
+
+      state = fsrs.nextState(state, elapsedDays, history[i].rating, weights);
+    }
+  }
+
+  return { loss: count > 0 ? total / count : 0, count };
+};
+
+export const fsrsOptimizer = {
+  // Mean log-loss of the given weights over a review history
+  evaluate(reviews: FsrsReview[], weights: number[] = DEFAULT_FSRS_WEIGHTS): number {
+    return logLoss(weights, groupByCharacter(reviews)).loss;
+  },
+
+  // Fit FSRS weights to a user's review history with Adam on finite-difference gradients.
+  // Returns the default weights unchanged when there is too little history.
+  optimize(
+    reviews: FsrsReview[],
+    initialWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+    { iterations = 100, learningRate = 0.02, onProgress }: OptimizeOptions = {}
+  ): OptimizeResult {
+    const histories = groupByCharacter(reviews).filter(history => history.length > 1);
+    const { loss: initialLoss, count } = logLoss(initialWeights, histories);
+
+    if (count < MIN_TRAINING_REVIEWS) {
+      return { weights: [...initialWeights], initialLoss, finalLoss: initialLoss, trainingSize: count };
+    }
+
+    const beta1 = 0.9;
+    const beta2 = 0.999;
+    const epsilon = 1e-8;
+    const step = 1e-4;
+
+    let weights = clampWeights([...initialWeights]);
+    let bestWeights = weights;
+    let bestLoss = logLoss(weights, histories).loss;
+    const m = new Array(weights.length).fill(0);
+    const v = new Array(weights.length).fill(0);
+
+    for (let t = 1; t <= iterations; t++) {
+      const baseLoss = logLoss(weights, histories).loss;
+      const gradient = weights.map((value, index) => {
+        const shifted = [...weights];
+        shifted[index] = value + step;
+        return (logLoss(shifted, histories).loss - baseLoss) / step;
+      });
+
+      weights = clampWeights(weights.map((value, index) => {
+        m[index] = beta1 * m[index] + (1 - beta1) * gradient[index];
+        v[index] = beta2 * v[index] + (1 - beta2) * gradient[index] * gradient[index];
+        const mHat = m[index] / (1 - Math.pow(beta1, t));
+        const vHat = v[index] / (1 - Math.pow(beta2, t));
+        return value - learningRate * mHat / (Math.sqrt(vHat) + epsilon);
+      }));
+
+      const loss = logLoss(weights, histories).loss;
+      if (loss < bestLoss) {
+        bestLoss = loss;
+        bestWeights = weights;
+      }
+      onProgress?.(t, iterations);
+    }
+
+    return {
+      weights: bestWeights.map(value => Math.round(value * 10000) / 10000),
+      initialLoss,
+      finalLoss: bestLoss,
+      trainingSize: count
+    };
+  },
+
+  // Run optimize in a web worker so a long history does not freeze the page
+  optimizeInBackground(
+    reviews: FsrsReview[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<OptimizeResult> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./fsrs-optimizer.worker.ts', import.meta.url), { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+        if (event.data.type === 'progress') {
+          onProgress?.(event.data.done, event.data.total);
+        } else {
+          worker.terminate();
+          resolve(event.data.result);
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Optimiser failed'));
+      };
+
+      worker.postMessage(reviews);
+    });
+  }
+};
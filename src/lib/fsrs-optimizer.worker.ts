@@ -0,0 +1,12 @@
+// Fits FSRS weights off the main thread: receives the review history, posts progress
+// after every iteration and the result at the end
+import { fsrsOptimizer, FsrsReview, OptimizerMessage } from './fsrs-optimizer';
+
+const post = (message: OptimizerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<FsrsReview[]>) => {
+  const result = fsrsOptimizer.optimize(event.data, undefined, {
+    onProgress: (done, total) => post({ type: 'progress', done, total })
+  });
+  post({ type: 'done', result });
+};
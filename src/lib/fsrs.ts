@@ -0,0 +1,97 @@
+// FSRS (Free Spaced Repetition Scheduler, v4.5) memory model.
+// Each card carries a stability S (days until recall probability drops to 90%)
+// and a difficulty D (1-10). Ratings follow FSRS: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy.
+
+export type FsrsRating = 1 | 2 | 3 | 4;
+
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 36500;
+
+export const DEFAULT_FSRS_WEIGHTS: number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+
+// Allowed range of every weight, used to keep the optimiser in a sane region
+export const FSRS_WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.75],
+  [0, 4], [0, 0.8], [0.01, 3], [0.1, 5],
+  [0.01, 0.2], [0.01, 0.9], [0.01, 2], [0, 1], [1, 4]
+];
+
+const clampDifficulty = (difficulty: number) => Math.min(10, Math.max(1, difficulty));
+
+export const fsrs = {
+  // Probability of recalling a card `elapsedDays` after its last review
+  retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+  },
+
+  // Days until retrievability falls to `desiredRetention`
+  nextInterval(stability: number, desiredRetention: number): number {
+    const interval = (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+    return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(interval)));
+  },
+
+  // Memory state after the very first review of a card
+  initialState(rating: FsrsRating, w: number[] = DEFAULT_FSRS_WEIGHTS): FsrsMemoryState {
+    return {
+      stability: Math.max(0.1, w[rating - 1]),
+      difficulty: clampDifficulty(w[4] - (rating - 3) * w[5])
+    };
+  },
+
+  // Memory state after reviewing a card `elapsedDays` after its previous review
+  nextState(
+    state: FsrsMemoryState,
+    elapsedDays: number,
+    rating: FsrsRating,
+    w: number[] = DEFAULT_FSRS_WEIGHTS
+  ): FsrsMemoryState {
+    const { stability, difficulty } = state;
+    const r = this.retrievability(elapsedDays, stability);
+
+    // Difficulty moves with the rating and reverts slightly towards the "Good" default
+    const initialGoodDifficulty = w[4];
+    const difficultyAfterRating = difficulty - w[6] * (rating - 3);
+    const nextDifficulty = clampDifficulty(
+      w[7] * initialGoodDifficulty + (1 - w[7]) * difficultyAfterRating
+    );
+
+    let nextStability: number;
+    if (rating === 1) {
+      // Forgotten: post-lapse stability, never larger than before
+      nextStability = Math.min(
+        stability,
+        w[11] *
+          Math.pow(difficulty, -w[12]) *
+          (Math.pow(stability + 1, w[13]) - 1) *
+          Math.exp(w[14] * (1 - r))
+      );
+    } else {
+      const hardPenalty = rating === 2 ? w[15] : 1;
+      const easyBonus = rating === 4 ? w[16] : 1;
+      nextStability =
+        stability *
+        (Math.exp(w[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -w[9]) *
+          (Math.exp(w[10] * (1 - r)) - 1) *
+          hardPenalty *
+          easyBonus +
+          1);
+    }
+
+    return {
+      stability: Math.max(0.1, nextStability),
+      difficulty: nextDifficulty
+    };
+  }
+};
@@ -0,0 +1,146 @@
+// Vowels carrying a tone mark, mapped to the plain vowel and the tone
+const TONE_MARKS: Record<string, [string, number]> = {
+  'ā': ['a', 1], 'á': ['a', 2], 'ǎ': ['a', 3], 'à': ['a', 4],
+  'ē': ['e', 1], 'é': ['e', 2], 'ě': ['e', 3], 'è': ['e', 4],
+  'ī': ['i', 1], 'í': ['i', 2], 'ǐ': ['i', 3], 'ì': ['i', 4],
+  'ō': ['o', 1], 'ó': ['o', 2], 'ǒ': ['o', 3], 'ò': ['o', 4],
+  'ū': ['u', 1], 'ú': ['u', 2], 'ǔ': ['u', 3], 'ù': ['u', 4],
+  'ǖ': ['ü', 1], 'ǘ': ['ü', 2], 'ǚ': ['ü', 3], 'ǜ': ['ü', 4]
+};
+
+// Pinyin reduced to what matters when comparing answers
+export interface PinyinKey {
+  // Letters without tones or spacing, with ü written as v
+  letters: string;
+  // Tones 1-4 in the order they appear; neutral tones are left out
+  tones: number[];
+}
+
+// One syllable of a pinyin reading
+export interface PinyinSyllable {
+  // Syllable as written, e.g. "hǎo"
+  text: string;
+  // Syllable without its tone, e.g. "hao"
+  plain: string;
+  // 1-4, or 5 for the neutral tone
+  tone: number;
+}
+
+export const NEUTRAL_TONE = 5;
+
+// A single syllable without its tone: an optional initial, a final and an optional erhua r
+const SYLLABLE = /^(?:zh|ch|sh|[bpmfdtnlgkhjqxrzcsyw])?(?:iang|iong|uang|ueng|üan|ang|eng|ing|ong|ian|iao|uai|uan|ai|ao|an|ei|en|er|ia|ie|in|iu|ou|ua|ue|üe|ui|un|uo|a|e|i|o|u|ü|ê)r?$/;
+// Longest syllable, e.g. "zhuangr"
+const MAX_SYLLABLE_LENGTH = 7;
+
+// Split toneless letters into syllable lengths, e.g. "pengyou" → [4, 3], or null if they
+// are not pinyin. Longer syllables are tried first, but a syllable after the first must
+// start with a consonant (vowel-initial ones are written after an apostrophe), so
+// "fangan" reads as fan-gan and "xian" as a single syllable.
+const segment = (letters: string, isFirst = true): number[] | null => {
+  if (!isFirst && /^[aeiouüê]/.test(letters)) return null;
+
+  for (let length = Math.min(MAX_SYLLABLE_LENGTH, letters.length); length > 0; length--) {
+    if (!SYLLABLE.test(letters.slice(0, length))) continue;
+    if (length === letters.length) return [length];
+
+    const rest = segment(letters.slice(length), false);
+    if (rest) return [length, ...rest];
+  }
+
+  return null;
+};
+
+// Split a run of pinyin written without separators ("péngyou") into its syllables,
+// keeping tone marks and numbers with the syllable they belong to
+const splitSyllables = (word: string): string[] => {
+  const chars = [...word];
+  let letters = '';
+  // Position in chars of each letter
+  const positions: number[] = [];
+  chars.forEach((char, index) => {
+    const letter = TONE_MARKS[char]?.[0] ?? (/[a-zü]/.test(char) ? char : null);
+    if (letter) {
+      letters += letter;
+      positions.push(index);
+    }
+  });
+
+  const lengths = segment(letters);
+  if (!lengths || lengths.length === 1) return [word];
+
+  const syllables: string[] = [];
+  let start = 0;
+  let letter = 0;
+  for (const length of lengths.slice(0, -1)) {
+    letter += length;
+    syllables.push(chars.slice(start, positions[letter]).join(''));
+    start = positions[letter];
+  }
+  syllables.push(chars.slice(start).join(''));
+  return syllables;
+};
+
+export const pinyin = {
+  // Write ü the same way however it was typed: "lv", "lu:" and "lü" all become "lü"
+  normalizeUmlaut(text: string): string {
+    return text.toLowerCase().normalize('NFC').replace(/u:/g, 'ü').replace(/v/g, 'ü');
+  },
+
+  // Reduce pinyin with tone marks ("nǐ hǎo") or tone numbers ("ni3 hao3", "ni3hao3")
+  // to its letters and tones, so either way of typing compares equal
+  toKey(text: string): PinyinKey {
+    let letters = '';
+    const tones: number[] = [];
+
+    for (const char of this.normalizeUmlaut(text)) {
+      const marked = TONE_MARKS[char];
+      if (marked) {
+        letters += marked[0];
+        tones.push(marked[1]);
+      } else if (char >= '1' && char <= '4') {
+        tones.push(Number(char));
+      } else if (/[a-zü]/.test(char)) {
+        letters += char;
+      }
+      // Spaces, apostrophes, hyphens and neutral tone numbers (5, 0) are ignored
+    }
+
+    return { letters: letters.replace(/ü/g, 'v'), tones };
+  },
+
+  // Rewrite each syllable with a tone number, e.g. "nǐ hǎo" or "nǐhǎo" → "ni3 hao3".
+  // Neutral syllables are left bare.
+  toNumbered(text: string): string {
+    return this.parse(text)
+      .map(syllable => syllable.plain + (syllable.tone === NEUTRAL_TONE ? '' : syllable.tone))
+      .join(' ');
+  },
+
+  // Split a reading into syllables with their tones. Syllables may be separated by
+  // spaces, apostrophes or hyphens, or run together ("péngyou"), and may carry a tone
+  // mark ("nǐ hǎo") or end in a tone number ("ni3 hao3", "ni3hao3"); unmarked syllables
+  // are neutral.
+  parse(text: string): PinyinSyllable[] {
+    return this.normalizeUmlaut(text)
+      .split(/[\s'’-]+|(?<=[0-5])/)
+      .flatMap(splitSyllables)
+      .map(syllable => {
+        let plain = '';
+        let tone = NEUTRAL_TONE;
+        for (const char of syllable) {
+          const marked = TONE_MARKS[char];
+          if (marked) {
+            plain += marked[0];
+            tone = marked[1];
+          } else if (char >= '0' && char <= '5') {
+            tone = char === '0' ? NEUTRAL_TONE : Number(char);
+          } else if (/[a-zü]/.test(char)) {
+            plain += char;
+          }
+        }
+        return { text: syllable, plain, tone };
+      })
+      .filter(syllable => syllable.plain !== '');
+  }
+};
@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+import { settingsStorage, UserSettings } from './settings';
+
+// Named set of study options that can be attached to one or more categories
+export interface DeckPreset {
+  id: string;
+  name: string;
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  learningSteps: number[];
+  desiredRetention: number;
+  leechThreshold: number;
+}
+
+export type NewDeckPreset = Omit<DeckPreset, 'id'>;
+
+// Database row interfaces matching the deck_presets and category_presets tables
+interface DeckPresetRow {
+  id: string;
+  user_id: string;
+  name: string;
+  new_cards_per_day: number;
+  max_reviews_per_day: number;
+  learning_steps: number[];
+  desired_retention: number;
+  leech_threshold: number;
+  created_at: string;
+}
+
+interface CategoryPresetRow {
+  user_id: string;
+  category: string;
+  preset_id: string;
+}
+
+// Presets and assignments are read when building every session, so keep them in memory
+let cachedPresets: DeckPreset[] | null = null;
+let cachedAssignments: Record<string, string> | null = null;
+
+const clearCache = () => {
+  cachedPresets = null;
+  cachedAssignments = null;
+};
+
+supabase.auth.onAuthStateChange(clearCache);
+
+export const presetStorage = {
+  // Get the current user's presets, oldest first
+  async getPresets(): Promise<DeckPreset[]> {
+    if (cachedPresets) {
+      return cachedPresets;
+    }
+
+    const { data, error } = await supabase
+      .from('deck_presets')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching presets:', error);
+      return [];
+    }
+
+    cachedPresets = (data as DeckPresetRow[]).map(this.mapRowToPreset);
+    return cachedPresets;
+  },
+
+  // Get which preset each category uses; categories not listed use the account settings
+  async getAssignments(): Promise<Record<string, string>> {
+    if (cachedAssignments) {
+      return cachedAssignments;
+    }
+
+    const { data, error } = await supabase
+      .from('category_presets')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching preset assignments:', error);
+      return {};
+    }
+
+    cachedAssignments = Object.fromEntries(
+      (data as CategoryPresetRow[]).map(row => [row.category, row.preset_id])
+    );
+    return cachedAssignments;
+  },
+
+  async addPreset(preset: NewDeckPreset): Promise<DeckPreset | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      console.error('User must be authenticated to add presets');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('deck_presets')
+      .insert({ user_id: user.id, ...this.mapPresetToRow(preset) })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding preset:', error);
+      return null;
+    }
+
+    clearCache();
+    return this.mapRowToPreset(data as DeckPresetRow);
+  },
+
+  async updatePreset(id: string, preset: NewDeckPreset): Promise<DeckPreset | null> {
+    const { data, error } = await supabase
+      .from('deck_presets')
+      .update(this.mapPresetToRow(preset))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating preset:', error);
+      return null;
+    }
+
+    clearCache();
+    return this.mapRowToPreset(data as DeckPresetRow);
+  },
+
+  // Delete a preset; categories using it go back to the account settings
+  async deletePreset(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('deck_presets')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting preset:', error);
+    }
+    clearCache();
+  },
+
+  // Attach a preset to a category, or detach it with null
+  async assignPreset(category: string, presetId: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      console.error('User must be authenticated to assign presets');
+      return;
+    }
+
+    const { error } = presetId
+      ? await supabase
+        .from('category_presets')
+        .upsert({ user_id: user.id, category, preset_id: presetId })
+      : await supabase
+        .from('category_presets')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('category', category);
+
+    if (error) {
+      console.error('Error assigning preset:', error);
+    }
+    clearCache();
+  },
+
+  // Effective settings of every category that has a preset
+  async getDeckSettings(): Promise<Record<string, UserSettings>> {
+    const [settings, presets, assignments] = await Promise.all([
+      settingsStorage.getSettings(),
+      this.getPresets(),
+      this.getAssignments()
+    ]);
+    return this.resolveDeckSettings(settings, presets, assignments);
+  },
+
+  // Lay each category's preset over the given account settings, e.g. what-if settings
+  resolveDeckSettings(
+    settings: UserSettings,
+    presets: DeckPreset[],
+    assignments: Record<string, string>
+  ): Record<string, UserSettings> {
+    const deckSettings: Record<string, UserSettings> = {};
+    for (const [category, presetId] of Object.entries(assignments)) {
+      const preset = presets.find(p => p.id === presetId);
+      if (preset) {
+        deckSettings[category] = this.applyPreset(settings, preset);
+      }
+    }
+    return deckSettings;
+  },
+
+  // Settings that apply to cards of one category
+  async getSettingsForCategory(category: string): Promise<UserSettings> {
+    const deckSettings = await this.getDeckSettings();
+    return deckSettings[category] ?? settingsStorage.getSettings();
+  },
+
+  // Account settings with a preset's options laid over them
+  applyPreset(settings: UserSettings, preset: DeckPreset): UserSettings {
+    return {
+      ...settings,
+      newCardsPerDay: preset.newCardsPerDay,
+      maxReviewsPerDay: preset.maxReviewsPerDay,
+      learningSteps: preset.learningSteps,
+      desiredRetention: preset.desiredRetention,
+      leechThreshold: preset.leechThreshold
+    };
+  },
+
+  // Helper to map DB row to DeckPreset interface
+  mapRowToPreset(row: DeckPresetRow): DeckPreset {
+    return {
+      id: row.id,
+      name: row.name,
+      newCardsPerDay: row.new_cards_per_day,
+      maxReviewsPerDay: row.max_reviews_per_day,
+      learningSteps: row.learning_steps,
+      desiredRetention: row.desired_retention,
+      leechThreshold: row.leech_threshold
+    };
+  },
+
+  // Helper to map a preset to DB columns
+  mapPresetToRow(preset: NewDeckPreset): Omit<DeckPresetRow, 'id' | 'user_id' | 'created_at'> {
+    return {
+      name: preset.name,
+      new_cards_per_day: preset.newCardsPerDay,
+      max_reviews_per_day: preset.maxReviewsPerDay,
+      learning_steps: preset.learningSteps,
+      desired_retention: preset.desiredRetention,
+      leech_threshold: preset.leechThreshold
+    };
+  }
+};
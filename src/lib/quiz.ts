@@ -0,0 +1,106 @@
+import { NewCharacter } from './storage';
+import { pinyin } from './pinyin';
+import { DISTRACTOR_POOL, LOOKALIKE_GROUPS } from '../data/distractors';
+
+// Side of the card shown as the quiz options
+export type QuizField = 'english' | 'pinyin' | 'chinese';
+
+export const QUIZ_FIELD_LABELS: Record<QuizField, string> = {
+  english: 'Meaning',
+  pinyin: 'Pinyin',
+  chinese: 'Characters'
+};
+
+export interface QuizOption {
+  text: string;
+  correct: boolean;
+}
+
+export const QUIZ_OPTION_COUNT = 4;
+
+// Lookalike group of each character, e.g. 日 → "日曰目旦"
+const lookalikes = new Map<string, string[]>();
+for (const group of LOOKALIKE_GROUPS) {
+  for (const char of group) {
+    lookalikes.set(char, [...(lookalikes.get(char) ?? []), group]);
+  }
+}
+
+// Fisher-Yates shuffle into a new array
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const quiz = {
+  // Same pinyin apart from the tones, e.g. mǎi / mài
+  isHomophone(a: NewCharacter, b: NewCharacter): boolean {
+    return pinyin.toKey(a.pinyin).letters === pinyin.toKey(b.pinyin).letters;
+  },
+
+  // Shares a character, or has a character that is easily mistaken for one of the other's
+  looksAlike(a: NewCharacter, b: NewCharacter): boolean {
+    return [...a.chinese].some(char =>
+      b.chinese.includes(char) ||
+      (lookalikes.get(char) ?? []).some(group => [...b.chinese].some(other => other !== char && group.includes(other)))
+    );
+  },
+
+  // How tempting a wrong option is: homophones and lookalikes first, then the same category
+  distractorScore(character: NewCharacter, candidate: NewCharacter): number {
+    return (this.isHomophone(character, candidate) ? 3 : 0) +
+      (this.looksAlike(character, candidate) ? 3 : 0) +
+      (candidate.category === character.category ? 2 : 0);
+  },
+
+  // Text compared to tell options apart; pinyin counts as the same only with the same tones
+  optionKey(card: NewCharacter, field: QuizField): string {
+    if (field === 'pinyin') {
+      const key = pinyin.toKey(card.pinyin);
+      return `${key.letters}${key.tones.join('')}`;
+    }
+    return card[field].trim().toLowerCase();
+  },
+
+  // The correct answer plus up to three distractors, in random order. Distractors come
+  // from the user's own cards, best first (with a little randomness so the same ones do
+  // not always appear); the bundled pool makes up the numbers for small decks.
+  buildOptions(
+    character: NewCharacter,
+    pool: NewCharacter[],
+    field: QuizField,
+    random: () => number = Math.random
+  ): QuizOption[] {
+    const seen = new Set([this.optionKey(character, field)]);
+    const distractors: NewCharacter[] = [];
+
+    const take = (candidates: NewCharacter[]) => {
+      const ranked = candidates
+        .map(candidate => ({ candidate, score: this.distractorScore(character, candidate) + random() }))
+        .sort((a, b) => b.score - a.score);
+
+      for (const { candidate } of ranked) {
+        if (distractors.length >= QUIZ_OPTION_COUNT - 1) return;
+        const key = this.optionKey(candidate, field);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        distractors.push(candidate);
+      }
+    };
+
+    take(pool);
+    take(DISTRACTOR_POOL);
+
+    return shuffle(
+      [
+        { text: character[field], correct: true },
+        ...distractors.map(distractor => ({ text: distractor[field], correct: false }))
+      ],
+      random
+    );
+  }
+};
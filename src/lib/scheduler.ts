@@ -0,0 +1,290 @@
+import { Character, DailyProgress } from './storage';
+import { fsrs, FsrsMemoryState, DEFAULT_FSRS_WEIGHTS } from './fsrs';
+import { UserSettings } from './settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Answer rating shared by all algorithms: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+export type Rating = 1 | 2 | 3 | 4;
+
+// Graded answer given by the learner
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+export const GRADE_LABELS: Record<Grade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+};
+
+// Daily limits to build a queue with: the user's settings, the settings of categories
+// that have their own preset, and what has been studied today in each category
+export interface QueueLimits {
+  settings: UserSettings;
+  deckSettings: Record<string, UserSettings>;
+  progressByCategory: Record<string, DailyProgress>;
+}
+
+// Cards held to the same daily limits
+export interface DeckGroup {
+  cards: Character[];
+  settings: UserSettings;
+  progress: DailyProgress;
+}
+
+// Scheduling fields carried by every character
+export interface SchedulingState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date | null;
+  // FSRS memory state, null until the card's first review
+  stability: number | null;
+  difficulty: number | null;
+  lastReviewed: Date;
+}
+
+export const scheduler = {
+  DEFAULT_EASE: 2.5,
+  MIN_EASE: 1.3,
+
+  ratingFromGrade(grade: Grade): Rating {
+    return (GRADES.indexOf(grade) + 1) as Rating;
+  },
+
+  gradeFromRating(rating: Rating): Grade {
+    return GRADES[rating - 1];
+  },
+
+  // Anything but "Again" counts as recalled
+  isCorrect(grade: Grade): boolean {
+    return grade !== 'again';
+  },
+
+  // State for a card that has never been reviewed
+  initialState(now: Date = new Date()): SchedulingState {
+    return {
+      easeFactor: this.DEFAULT_EASE,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: null,
+      stability: null,
+      difficulty: null,
+      lastReviewed: now
+    };
+  },
+
+  // Apply one review with the user's chosen algorithm.
+  // The FSRS memory state is updated for every review so that retrievability can be
+  // shown (and the algorithm switched) whichever scheduler decides the due date.
+  next(state: SchedulingState, rating: Rating, settings: UserSettings, now: Date = new Date()): SchedulingState {
+    const memory = this.nextMemoryState(state, rating, settings, now);
+    const sm2 = this.sm2Review(state, rating, now);
+
+    if (settings.algorithm === 'fsrs') {
+      const intervalDays = rating === 1 ? 1 : fsrs.nextInterval(memory.stability, settings.desiredRetention);
+      return {
+        ...sm2,
+        intervalDays,
+        dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+        stability: memory.stability,
+        difficulty: memory.difficulty
+      };
+    }
+
+    return {
+      ...sm2,
+      stability: memory.stability,
+      difficulty: memory.difficulty
+    };
+  },
+
+  // Classic SM-2: ratings map to answer quality 1 / 3 / 4 / 5
+  sm2Review(state: SchedulingState, rating: Rating, now: Date = new Date()): SchedulingState {
+    const quality = [1, 3, 4, 5][rating - 1];
+
+    let repetitions: number;
+    let intervalDays: number;
+
+    if (quality >= 3) {
+      // Successful recall: grow the interval
+      if (state.repetitions === 0) {
+        intervalDays = 1;
+      } else if (state.repetitions === 1) {
+        intervalDays = 6;
+      } else {
+        intervalDays = Math.round(Math.max(1, state.intervalDays) * state.easeFactor);
+      }
+      repetitions = state.repetitions + 1;
+    } else {
+      // Lapse: start the card over but keep the (reduced) ease
+      repetitions = 0;
+      intervalDays = 1;
+    }
+
+    const easeFactor = Math.max(
+      this.MIN_EASE,
+      state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    return {
+      ...state,
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      intervalDays,
+      repetitions,
+      dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+      lastReviewed: now
+    };
+  },
+
+  nextMemoryState(state: SchedulingState, rating: Rating, settings: UserSettings, now: Date): FsrsMemoryState {
+    const weights = settings.fsrsWeights ?? DEFAULT_FSRS_WEIGHTS;
+
+    if (this.isNew(state)) {
+      return fsrs.initialState(rating, weights);
+    }
+
+    return fsrs.nextState(this.memoryState(state), this.elapsedDays(state, now), rating, weights);
+  },
+
+  // FSRS memory state of a reviewed card. Cards scheduled by SM-2 before FSRS
+  // tracking existed are approximated from their interval and ease.
+  memoryState(state: SchedulingState): FsrsMemoryState {
+    if (state.stability !== null && state.difficulty !== null) {
+      return { stability: state.stability, difficulty: state.difficulty };
+    }
+
+    return {
+      stability: Math.max(0.1, state.intervalDays),
+      difficulty: Math.min(10, Math.max(1, 1 + ((2.8 - state.easeFactor) / 1.5) * 9))
+    };
+  },
+
+  elapsedDays(state: SchedulingState, now: Date = new Date()): number {
+    return Math.max(0, (now.getTime() - state.lastReviewed.getTime()) / DAY_MS);
+  },
+
+  // Predicted probability of recalling the card right now, null for new cards
+  retrievability(state: SchedulingState, now: Date = new Date()): number | null {
+    if (this.isNew(state)) {
+      return null;
+    }
+    return fsrs.retrievability(this.elapsedDays(state, now), this.memoryState(state).stability);
+  },
+
+  // Never-reviewed cards have no due date yet
+  isNew(state: SchedulingState): boolean {
+    return state.dueAt === null;
+  },
+
+  isDue(state: SchedulingState, now: Date = new Date()): boolean {
+    return state.dueAt !== null && state.dueAt.getTime() <= now.getTime();
+  },
+
+  isBuried(character: Character, now: Date = new Date()): boolean {
+    return character.buriedUntil !== null && character.buriedUntil.getTime() > now.getTime();
+  },
+
+  // Whether a card may be studied at all right now
+  isAvailable(character: Character, now: Date = new Date()): boolean {
+    return !character.suspended && !this.isBuried(character, now);
+  },
+
+  // Order cards for study: due reviews first, then new cards, then cards that are
+  // not due yet (soonest first). SM-2 orders due reviews by due date, FSRS by lowest
+  // predicted retrievability.
+  sortByPriority(characters: Character[], settings: UserSettings, now: Date = new Date()): Character[] {
+    const rank = (character: Character) => {
+      if (this.isDue(character, now)) return 0;
+      if (this.isNew(character)) return 1;
+      return 2;
+    };
+
+    return [...characters].sort((a, b) => {
+      const rankDiff = rank(a) - rank(b);
+      if (rankDiff !== 0) return rankDiff;
+      if (rank(a) === 0 && settings.algorithm === 'fsrs') {
+        return this.retrievability(a, now) - this.retrievability(b, now);
+      }
+      if (a.dueAt && b.dueAt) return a.dueAt.getTime() - b.dueAt.getTime();
+      return 0;
+    });
+  },
+
+  // Split cards into due reviews and never-seen cards
+  countDueAndNew(characters: Character[], now: Date = new Date()): { due: number; new: number } {
+    return {
+      due: characters.filter(character => this.isDue(character, now)).length,
+      new: characters.filter(character => this.isNew(character)).length
+    };
+  },
+
+  // Assemble today's queue: due reviews (most urgent first) followed by new cards
+  // (oldest first), each capped by what is left of the user's daily limits.
+  // Suspended and buried cards are left out.
+  buildQueue(
+    characters: Character[],
+    settings: UserSettings,
+    progress: DailyProgress,
+    now: Date = new Date()
+  ): Character[] {
+    const reviewAllowance = Math.max(0, settings.maxReviewsPerDay - progress.reviewsDone);
+    const newAllowance = Math.max(0, settings.newCardsPerDay - progress.newCardsStudied);
+    const available = characters.filter(character => this.isAvailable(character, now));
+
+    const due = this.sortByPriority(
+      available.filter(character => this.isDue(character, now)),
+      settings,
+      now
+    ).slice(0, reviewAllowance);
+
+    const fresh = available
+      .filter(character => this.isNew(character))
+      .slice(0, newAllowance);
+
+    return [...due, ...fresh];
+  },
+
+  sumProgress(progress: DailyProgress[]): DailyProgress {
+    return progress.reduce(
+      (sum, item) => ({
+        newCardsStudied: sum.newCardsStudied + item.newCardsStudied,
+        reviewsDone: sum.reviewsDone + item.reviewsDone
+      }),
+      { newCardsStudied: 0, reviewsDone: 0 }
+    );
+  },
+
+  // Group cards by the limits that apply to them: each category with a preset on its own,
+  // every other category sharing the user's limits (and today's progress across all of them)
+  groupByDeck(characters: Character[], limits: QueueLimits): DeckGroup[] {
+    const { settings, deckSettings, progressByCategory } = limits;
+    const groups: DeckGroup[] = Object.keys(deckSettings).map(category => ({
+      cards: characters.filter(character => character.category === category),
+      settings: deckSettings[category],
+      progress: progressByCategory[category] ?? { newCardsStudied: 0, reviewsDone: 0 }
+    }));
+
+    groups.push({
+      cards: characters.filter(character => !deckSettings[character.category]),
+      settings,
+      progress: this.sumProgress(
+        Object.keys(progressByCategory)
+          .filter(category => !deckSettings[category])
+          .map(category => progressByCategory[category])
+      )
+    });
+
+    return groups.filter(group => group.cards.length > 0);
+  },
+
+  // Today's queue when categories can have their own limits: each group is capped by its
+  // own limits, then everything is ordered most urgent first
+  buildDeckQueue(characters: Character[], limits: QueueLimits, now: Date = new Date()): Character[] {
+    const queued = this.groupByDeck(characters, limits)
+      .flatMap(group => this.buildQueue(group.cards, group.settings, group.progress, now));
+    return this.sortByPriority(queued, limits.settings, now);
+  }
+};
@@ -0,0 +1,188 @@
+import { supabase } from './supabase';
+import { settingsStorage } from './settings';
+import { StudySession } from './flashcard-logic';
+
+// An unfinished session together with when it was last saved
+export interface SavedSession {
+  session: StudySession;
+  savedAt: Date;
+}
+
+// Database row interface matching the study_sessions table
+interface StudySessionRow {
+  user_id: string;
+  session: string;
+  saved_at: string;
+}
+
+const LOCAL_KEY_PREFIX = 'shynese.activeSession.';
+
+// Character and answer fields stored as ISO strings that must be turned back into Dates
+const DATE_FIELDS = new Set(['lastReviewed', 'dueAt', 'buriedUntil', 'createdAt', 'answeredAt']);
+
+// JSON.parse reviver restoring those Date fields
+export const reviveDates = (key: string, value: unknown) =>
+  DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+
+const serialize = (session: StudySession): string => JSON.stringify(session);
+
+const deserialize = (json: string): StudySession => JSON.parse(json, reviveDates);
+
+// Remote saves and clears are chained so a slow save cannot land after a later clear
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+  pendingWrite = pendingWrite.then(write, write);
+  return pendingWrite;
+};
+
+// Every change is saved locally right away, but only sent to Supabase once this many
+// changes have piled up, after a short wait, or when the page is hidden
+const REMOTE_SAVE_EVERY = 10;
+const REMOTE_SAVE_DELAY_MS = 30 * 1000;
+
+let userId: string | null = null;
+// Latest save not yet sent to Supabase
+let unsentRow: StudySessionRow | null = null;
+let unsentChanges = 0;
+let remoteTimer: ReturnType<typeof setTimeout> | null = null;
+
+supabase.auth.onAuthStateChange((_event, session) => {
+  userId = session?.user.id ?? null;
+});
+
+const getUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+const cancelRemoteSave = () => {
+  if (remoteTimer) {
+    clearTimeout(remoteTimer);
+    remoteTimer = null;
+  }
+  unsentRow = null;
+  unsentChanges = 0;
+};
+
+const loadLocal = (userId: string): SavedSession | null => {
+  try {
+    const raw = localStorage.getItem(LOCAL_KEY_PREFIX + userId);
+    if (!raw) return null;
+
+    const { session, savedAt } = JSON.parse(raw) as { session: string; savedAt: string };
+    return { session: deserialize(session), savedAt: new Date(savedAt) };
+  } catch (error) {
+    console.error('Error reading saved session:', error);
+    return null;
+  }
+};
+
+const loadRemote = async (): Promise<SavedSession | null> => {
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching saved session:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  const row = data as StudySessionRow;
+  return { session: deserialize(row.session), savedAt: new Date(row.saved_at) };
+};
+
+export const sessionStore = {
+  // Save the active session locally and, if enabled, to Supabase. The local copy is
+  // written at once; Supabase gets the latest copy every few answers (see flush).
+  save(session: StudySession): void {
+    if (!userId) return;
+
+    const row: StudySessionRow = {
+      user_id: userId,
+      session: serialize(session),
+      saved_at: new Date().toISOString()
+    };
+
+    try {
+      localStorage.setItem(LOCAL_KEY_PREFIX + userId, JSON.stringify({ session: row.session, savedAt: row.saved_at }));
+    } catch (error) {
+      console.error('Error saving session locally:', error);
+    }
+
+    unsentRow = row;
+    unsentChanges++;
+    if (unsentChanges >= REMOTE_SAVE_EVERY) {
+      this.flush();
+    } else if (!remoteTimer) {
+      remoteTimer = setTimeout(() => this.flush(), REMOTE_SAVE_DELAY_MS);
+    }
+  },
+
+  // Send the latest unsent save to Supabase now
+  flush(): Promise<void> {
+    const row = unsentRow;
+    cancelRemoteSave();
+    if (!row) return pendingWrite;
+    return enqueueWrite(() => this.writeRemote(row));
+  },
+
+  // Forget the saved session once it is finished or abandoned
+  clear(): Promise<void> {
+    cancelRemoteSave();
+    if (userId) {
+      localStorage.removeItem(LOCAL_KEY_PREFIX + userId);
+    }
+    return enqueueWrite(() => this.remove());
+  },
+
+  async writeRemote(row: StudySessionRow): Promise<void> {
+    const settings = await settingsStorage.getSettings();
+    if (!settings.syncSession) return;
+
+    const { error } = await supabase.from('study_sessions').upsert(row);
+
+    if (error) {
+      console.error('Error saving session:', error);
+    }
+  },
+
+  // Get the most recently saved unfinished session from this device or Supabase
+  async load(): Promise<SavedSession | null> {
+    const userId = await getUserId();
+    if (!userId) return null;
+
+    const local = loadLocal(userId);
+    const settings = await settingsStorage.getSettings();
+    const remote = settings.syncSession ? await loadRemote() : null;
+
+    if (local && remote) {
+      return local.savedAt >= remote.savedAt ? local : remote;
+    }
+    return local ?? remote;
+  },
+
+  async remove(): Promise<void> {
+    const userId = await getUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from('study_sessions')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing saved session:', error);
+    }
+  }
+};
+
+// Send the last few answers' worth of progress before the tab goes away
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'hidden') {
+    sessionStore.flush();
+  }
+});
+window.addEventListener('pagehide', () => sessionStore.flush());
@@ -0,0 +1,188 @@
+import { supabase } from './supabase';
+import type { CardDirection, SessionOrder, StudyMode } from './flashcard-logic';
+
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
+// What happens to a card once it becomes a leech
+export type LeechAction = 'tag' | 'suspend';
+
+export interface UserSettings {
+  algorithm: SchedulerAlgorithm;
+  desiredRetention: number;
+  // Personalised FSRS weights; null means the published defaults are used
+  fsrsWeights: number[] | null;
+  // Daily caps applied when building study sessions
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  // Intraday steps in minutes before a new or lapsed card graduates
+  learningSteps: number[];
+  relearningSteps: number[];
+  // Lapses after which a card is flagged as a leech
+  leechThreshold: number;
+  leechAction: LeechAction;
+  // Correct answers recalled slower than this count as "Hard"; 0 turns it off
+  slowRecallSeconds: number;
+  // Also keep the unfinished study session in Supabase to resume on other devices
+  syncSession: boolean;
+  // Last choices from the session setup dialog
+  sessionSize: number;
+  sessionOrder: SessionOrder;
+  cardDirection: CardDirection;
+  studyMode: StudyMode;
+  // Pronunciation playback: speed (1 is normal) and whether to play each side on its own
+  speechRate: number;
+  autoPlayFront: boolean;
+  autoPlayBack: boolean;
+}
+
+// Database row interface matching the user_settings table
+interface UserSettingsRow {
+  user_id: string;
+  algorithm: SchedulerAlgorithm;
+  desired_retention: number;
+  fsrs_weights: number[] | null;
+  new_cards_per_day: number;
+  max_reviews_per_day: number;
+  learning_steps: number[];
+  relearning_steps: number[];
+  leech_threshold: number;
+  leech_action: LeechAction;
+  slow_recall_seconds: number;
+  sync_session: boolean;
+  session_size: number;
+  session_order: SessionOrder;
+  card_direction: CardDirection;
+  study_mode: StudyMode;
+  speech_rate: number;
+  auto_play_front: boolean;
+  auto_play_back: boolean;
+  updated_at: string;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  algorithm: 'sm2',
+  desiredRetention: 0.9,
+  fsrsWeights: null,
+  newCardsPerDay: 10,
+  maxReviewsPerDay: 100,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  leechThreshold: 8,
+  leechAction: 'tag',
+  slowRecallSeconds: 10,
+  syncSession: true,
+  sessionSize: 20,
+  sessionOrder: 'priority',
+  cardDirection: 'chinese-meaning',
+  studyMode: 'flashcard',
+  speechRate: 0.9,
+  autoPlayFront: false,
+  autoPlayBack: false
+};
+
+// Settings are read on every answer, so keep the current user's copy in memory
+let cachedSettings: UserSettings | null = null;
+
+supabase.auth.onAuthStateChange(() => {
+  cachedSettings = null;
+});
+
+export const settingsStorage = {
+  // Get the current user's settings, falling back to defaults if none are saved
+  async getSettings(): Promise<UserSettings> {
+    if (cachedSettings) {
+      return cachedSettings;
+    }
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+
+    cachedSettings = data ? this.mapRowToSettings(data as UserSettingsRow) : DEFAULT_SETTINGS;
+    return cachedSettings;
+  },
+
+  // Save changes to the current user's settings
+  async updateSettings(updates: Partial<UserSettings>): Promise<UserSettings | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      console.error('User must be authenticated to save settings');
+      return null;
+    }
+
+    const merged = { ...(await this.getSettings()), ...updates };
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert({
+        user_id: user.id,
+        ...this.mapSettingsToRow(merged),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving settings:', error);
+      return null;
+    }
+
+    cachedSettings = this.mapRowToSettings(data as UserSettingsRow);
+    return cachedSettings;
+  },
+
+  // Helper to map DB row to UserSettings interface
+  mapRowToSettings(row: UserSettingsRow): UserSettings {
+    return {
+      algorithm: row.algorithm,
+      desiredRetention: row.desired_retention,
+      fsrsWeights: row.fsrs_weights,
+      newCardsPerDay: row.new_cards_per_day,
+      maxReviewsPerDay: row.max_reviews_per_day,
+      learningSteps: row.learning_steps,
+      relearningSteps: row.relearning_steps,
+      leechThreshold: row.leech_threshold,
+      leechAction: row.leech_action,
+      slowRecallSeconds: row.slow_recall_seconds,
+      syncSession: row.sync_session,
+      sessionSize: row.session_size,
+      sessionOrder: row.session_order,
+      cardDirection: row.card_direction,
+      studyMode: row.study_mode,
+      speechRate: row.speech_rate,
+      autoPlayFront: row.auto_play_front,
+      autoPlayBack: row.auto_play_back
+    };
+  },
+
+  // Helper to map UserSettings to DB columns
+  mapSettingsToRow(settings: UserSettings): Omit<UserSettingsRow, 'user_id' | 'updated_at'> {
+    return {
+      algorithm: settings.algorithm,
+      desired_retention: settings.desiredRetention,
+      fsrs_weights: settings.fsrsWeights,
+      new_cards_per_day: settings.newCardsPerDay,
+      max_reviews_per_day: settings.maxReviewsPerDay,
+      learning_steps: settings.learningSteps,
+      relearning_steps: settings.relearningSteps,
+      leech_threshold: settings.leechThreshold,
+      leech_action: settings.leechAction,
+      slow_recall_seconds: settings.slowRecallSeconds,
+      sync_session: settings.syncSession,
+      session_size: settings.sessionSize,
+      session_order: settings.sessionOrder,
+      card_direction: settings.cardDirection,
+      study_mode: settings.studyMode,
+      speech_rate: settings.speechRate,
+      auto_play_front: settings.autoPlayFront,
+      auto_play_back: settings.autoPlayBack
+    };
+  }
+};
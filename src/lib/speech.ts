@@ -0,0 +1,89 @@
+// Reading Chinese aloud with the browser's built-in speech synthesis
+
+const LANGUAGE = 'zh-CN';
+
+// Voices are installed per device, so the chosen one is remembered per browser rather
+// than in the user's settings
+const VOICE_KEY = 'speech-voice';
+
+// How long to wait for the browser to list its voices, which some load lazily
+const VOICES_TIMEOUT_MS = 1500;
+
+export interface SpeakOptions {
+  // 1 is normal speed
+  rate?: number;
+}
+
+// Chinese voices: zh-CN first, then other Mandarin locales such as zh-TW
+const isChinese = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase().startsWith('zh');
+
+const byPreference = (a: SpeechSynthesisVoice, b: SpeechSynthesisVoice) =>
+  Number(b.lang.replace('_', '-') === LANGUAGE) - Number(a.lang.replace('_', '-') === LANGUAGE) ||
+  Number(b.localService) - Number(a.localService);
+
+export const speech = {
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  },
+
+  // Chinese voices installed on this device, best first; empty if there are none
+  async getVoices(): Promise<SpeechSynthesisVoice[]> {
+    if (!this.isSupported()) return [];
+
+    let voices = window.speechSynthesis.getVoices();
+    if (voices.length === 0) {
+      voices = await new Promise<SpeechSynthesisVoice[]>(resolve => {
+        const timer = setTimeout(() => resolve(window.speechSynthesis.getVoices()), VOICES_TIMEOUT_MS);
+        window.speechSynthesis.addEventListener('voiceschanged', () => {
+          clearTimeout(timer);
+          resolve(window.speechSynthesis.getVoices());
+        }, { once: true });
+      });
+    }
+
+    return voices.filter(isChinese).sort(byPreference);
+  },
+
+  // Name of the voice picked on this device; null means the best available one
+  getVoiceName(): string | null {
+    try {
+      return localStorage.getItem(VOICE_KEY);
+    } catch {
+      return null;
+    }
+  },
+
+  setVoiceName(name: string | null): void {
+    try {
+      if (name) {
+        localStorage.setItem(VOICE_KEY, name);
+      } else {
+        localStorage.removeItem(VOICE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving voice:', error);
+    }
+  },
+
+  // Read text aloud, cutting off anything still being spoken. Resolves false when there
+  // is no Chinese voice to read it with, so callers can fall back to showing the text.
+  async speak(text: string, { rate = 1 }: SpeakOptions = {}): Promise<boolean> {
+    const voices = await this.getVoices();
+    if (voices.length === 0) return false;
+
+    const chosen = this.getVoiceName();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = voices.find(voice => voice.name === chosen) ?? voices[0];
+    utterance.lang = utterance.voice.lang;
+    utterance.rate = rate;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+    return true;
+  },
+
+  stop(): void {
+    if (this.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+};
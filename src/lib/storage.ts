@@ -1,4 +1,10 @@
+import { startOfDay, startOfTomorrow } from 'date-fns';
 import { supabase } from './supabase';
+import { scheduler, Rating, Grade, SchedulingState } from './scheduler';
+import { settingsStorage } from './settings';
+import { presetStorage } from './presets';
+import { toneStorage, ToneAnswer } from './tones';
+import { flashcardLogic, SessionConfig, StudyMode, CategoryWeights, CardDirection } from './flashcard-logic';
 
 export interface Character {
   id: string;
@@ -10,6 +16,76 @@ export interface Character {
   attempts: number;
   correctCount: number;
   lastReviewed: Date;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date | null;
+  stability: number | null;
+  difficulty: number | null;
+  // Times a learned card was forgotten ("Again" on a review)
+  lapses: number;
+  isLeech: boolean;
+  // Suspended cards are excluded from study until unsuspended
+  suspended: boolean;
+  // Buried cards are skipped until this time (usually the next day)
+  buriedUntil: Date | null;
+  createdAt: Date;
+}
+
+// Fields supplied by the user when creating or editing a character
+export type NewCharacter = Pick<Character, 'chinese' | 'pinyin' | 'english' | 'category'>;
+
+// A single logged answer
+export interface Review {
+  id: string;
+  characterId: string;
+  reviewedAt: Date;
+  grade: Rating;
+  // Time from the card being shown to it being answered, and to it being flipped
+  responseTimeMs: number | null;
+  flipTimeMs: number | null;
+  mode: StudyMode;
+  direction: CardDirection;
+  sessionId: string | null;
+}
+
+// Optional details stored alongside an answer
+export interface ReviewContext {
+  // When the answer was given, if it is recorded later (defaults to now)
+  answeredAt?: Date;
+  sessionId?: string;
+  mode?: StudyMode;
+  // Direction the card was shown in; each direction is scheduled separately
+  direction?: CardDirection;
+  responseTimeMs?: number;
+  flipTimeMs?: number | null;
+  // Repeat within the session's learning steps: logged, but the long-term
+  // schedule was already set by the card's first answer of the session
+  isLearningStep?: boolean;
+  // Tones picked in a tone drill, logged against the review
+  toneAnswers?: ToneAnswer[];
+  // Key generated on this device for the answer, so writing it twice applies it once
+  clientId?: string;
+}
+
+// Outcome of recording an answer, kept so the answer can be undone
+export interface RecordedAnswer {
+  previous: Character;
+  updated: Character;
+  direction: CardDirection;
+  reviewId: string | null;
+}
+
+// What has already been studied today, counted against the daily limits
+export interface DailyProgress {
+  newCardsStudied: number;
+  reviewsDone: number;
+}
+
+export interface ReviewQuery {
+  characterId?: string;
+  since?: Date;
+  limit?: number;
 }
 
 // Database row interface matching the Supabase table structure
@@ -24,9 +100,82 @@ interface CharacterRow {
   attempts: number;
   correct_count: number;
   last_reviewed: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string | null;
+  stability: number | null;
+  difficulty: number | null;
+  lapses: number;
+  is_leech: boolean;
+  suspended: boolean;
+  buried_until: string | null;
   created_at: string;
 }
 
+// Database row interface matching the reviews table
+interface ReviewRow {
+  id: string;
+  user_id: string;
+  character_id: string;
+  reviewed_at: string;
+  grade: Rating;
+  response_time_ms: number | null;
+  flip_time_ms: number | null;
+  mode: StudyMode;
+  direction: CardDirection;
+  session_id: string | null;
+}
+
+// Database row interface matching the card_states table: the schedule of one card in a
+// direction other than the default Chinese → meaning, which lives on the character row
+interface CardStateRow {
+  user_id: string;
+  character_id: string;
+  direction: CardDirection;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string | null;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed: string;
+}
+
+// Average answer latency of one character over its logged reviews
+export interface ResponseTimeStats {
+  averageFlipMs: number | null;
+  averageAnswerMs: number;
+  timedReviews: number;
+}
+
+// Row of the review_response_times view
+interface ResponseTimeRow {
+  character_id: string;
+  average_flip_ms: number | null;
+  average_answer_ms: number;
+  timed_reviews: number;
+}
+
+// Result of the record_answer database function
+interface RecordAnswerResult {
+  conflict: boolean;
+  // The answer had already been written under the same client id
+  duplicate?: boolean;
+  previous: CharacterRow;
+  updated: CharacterRow;
+  review_id: string;
+}
+
+// Attempts at recording an answer when the card keeps changing underneath us
+const MAX_RECORD_ATTEMPTS = 3;
+
+// Direction whose schedule is stored on the characters table itself
+const DEFAULT_DIRECTION: CardDirection = 'chinese-meaning';
+
+// Reviews are fetched in pages of this size (PostgREST's default row cap)
+const REVIEW_PAGE_SIZE = 1000;
+
 // Interface for database updates
 interface CharacterUpdate {
   chinese?: string;
@@ -37,6 +186,16 @@ interface CharacterUpdate {
   attempts?: number;
   correct_count?: number;
   last_reviewed?: string;
+  ease_factor?: number;
+  interval_days?: number;
+  repetitions?: number;
+  due_at?: string | null;
+  stability?: number | null;
+  difficulty?: number | null;
+  lapses?: number;
+  is_leech?: boolean;
+  suspended?: boolean;
+  buried_until?: string | null;
 }
 
 export const storage = {
@@ -56,7 +215,7 @@ export const storage = {
   },
 
   // Add a new character
-  async addCharacter(character: Omit<Character, 'id' | 'score' | 'attempts' | 'correctCount' | 'lastReviewed'>): Promise<Character | null> {
+  async addCharacter(character: NewCharacter): Promise<Character | null> {
     // Get current user (must be authenticated)
     const { data: { user } } = await supabase.auth.getUser();
 
@@ -65,6 +224,7 @@ export const storage = {
       return null;
     }
 
+    const initialState = scheduler.initialState();
     const newCharacter = {
       user_id: user.id, // Inject user_id for RLS
       chinese: character.chinese,
@@ -74,7 +234,17 @@ export const storage = {
       score: 0,
       attempts: 0,
       correct_count: 0,
-      last_reviewed: new Date().toISOString()
+      last_reviewed: new Date().toISOString(),
+      ease_factor: initialState.easeFactor,
+      interval_days: initialState.intervalDays,
+      repetitions: initialState.repetitions,
+      due_at: null,
+      stability: null,
+      difficulty: null,
+      lapses: 0,
+      is_leech: false,
+      suspended: false,
+      buried_until: null
     };
 
     const { data, error } = await supabase
@@ -103,6 +273,16 @@ export const storage = {
     if (updates.attempts !== undefined) dbUpdates.attempts = updates.attempts;
     if (updates.correctCount !== undefined) dbUpdates.correct_count = updates.correctCount;
     if (updates.lastReviewed !== undefined) dbUpdates.last_reviewed = updates.lastReviewed.toISOString();
+    if (updates.easeFactor !== undefined) dbUpdates.ease_factor = updates.easeFactor;
+    if (updates.intervalDays !== undefined) dbUpdates.interval_days = updates.intervalDays;
+    if (updates.repetitions !== undefined) dbUpdates.repetitions = updates.repetitions;
+    if (updates.dueAt !== undefined) dbUpdates.due_at = updates.dueAt ? updates.dueAt.toISOString() : null;
+    if (updates.stability !== undefined) dbUpdates.stability = updates.stability;
+    if (updates.difficulty !== undefined) dbUpdates.difficulty = updates.difficulty;
+    if (updates.lapses !== undefined) dbUpdates.lapses = updates.lapses;
+    if (updates.isLeech !== undefined) dbUpdates.is_leech = updates.isLeech;
+    if (updates.suspended !== undefined) dbUpdates.suspended = updates.suspended;
+    if (updates.buriedUntil !== undefined) dbUpdates.buried_until = updates.buriedUntil ? updates.buriedUntil.toISOString() : null;
 
     const { error } = await supabase
       .from('characters')
@@ -114,6 +294,24 @@ export const storage = {
     }
   },
 
+  // Exclude a character from study until it is unsuspended
+  async suspendCharacter(id: string): Promise<void> {
+    await this.updateCharacter(id, { suspended: true });
+  },
+
+  async unsuspendCharacter(id: string): Promise<void> {
+    await this.updateCharacter(id, { suspended: false });
+  },
+
+  // Hide a character from study until the start of tomorrow
+  async buryCharacter(id: string): Promise<void> {
+    await this.updateCharacter(id, { buriedUntil: startOfTomorrow() });
+  },
+
+  async unburyCharacter(id: string): Promise<void> {
+    await this.updateCharacter(id, { buriedUntil: null });
+  },
+
   // Delete a character
   async deleteCharacter(id: string): Promise<void> {
     const { error } = await supabase
@@ -126,25 +324,87 @@ export const storage = {
     }
   },
 
-  // Get characters for study session
-  async getStudySession(category?: string): Promise<Character[]> {
-    // Start building the query
+  // Show characters as they stand in one direction: each card's schedule in that
+  // direction replaces the one stored on the character. Cards never studied in the
+  // direction are new there.
+  async applyDirection(characters: Character[], direction: CardDirection): Promise<Character[]> {
+    if (direction === DEFAULT_DIRECTION || characters.length === 0) {
+      return characters;
+    }
+
+    const { data, error } = await supabase
+      .from('card_states')
+      .select('*')
+      .eq('direction', direction);
+
+    if (error) {
+      console.error('Error fetching card states:', error);
+      return characters;
+    }
+
+    const states = new Map(
+      (data as CardStateRow[]).map(row => [row.character_id, this.mapRowToSchedulingState(row)])
+    );
+
+    // Unseen cards start from their creation time, as record_answer does
+    return characters.map(character => ({
+      ...character,
+      ...(states.get(character.id) ?? scheduler.initialState(character.createdAt))
+    }));
+  },
+
+  // Each card as it stands in every other direction it has been studied in, one copy per
+  // direction, e.g. to forecast the reviews all directions will bring
+  async getOtherDirectionCards(characters: Character[]): Promise<Character[]> {
+    const { data, error } = await supabase
+      .from('card_states')
+      .select('*')
+      .neq('direction', DEFAULT_DIRECTION);
+
+    if (error) {
+      console.error('Error fetching card states:', error);
+      return [];
+    }
+
+    const byId = new Map(characters.map(character => [character.id, character]));
+    return (data as CardStateRow[]).flatMap(row => {
+      const character = byId.get(row.character_id);
+      return character ? [{ ...character, ...this.mapRowToSchedulingState(row) }] : [];
+    });
+  },
+
+  // Get characters for study session. The default "due first" order takes today's due
+  // reviews plus new cards, capped by the daily limits of each category's preset (or the
+  // user's settings for categories without one); other orders draw from
+  // every unsuspended card. Either way at most config.size cards are returned.
+  // An empty category list means all categories; several categories are mixed
+  // according to their weights (equal shares by default).
+  async getStudySession(
+    categories: string[],
+    config: SessionConfig,
+    weights: CategoryWeights = {}
+  ): Promise<Character[]> {
+    const [settings, deckSettings, progressByCategory] = await Promise.all([
+      settingsStorage.getSettings(),
+      presetStorage.getDeckSettings(),
+      this.getDailyProgressByCategory()
+    ]);
+
     let query = supabase
       .from('characters')
       .select('*')
-      // Primary sort: Score ascending (0 first). This prioritizes unlearned or hard items.
-      .order('score', { ascending: true })
-      // Secondary sort: Attempts descending. 
-      // Among items with the same score (e.g., 0), this prioritizes ones we've tried and failed 
-      // over ones we haven't seen yet.
-      .order('attempts', { ascending: false });
+      .eq('suspended', false)
+      .order('created_at', { ascending: true });
 
-    // Apply category filter if specific category is chosen
-    if (category && category !== 'all') {
-      query = query.eq('category', category);
-    } else {
-      // If "All Categories" (or undefined), limit to 10 items
-      query = query.limit(10);
+    // Other directions keep their due dates in card_states, so those are filtered below.
+    // Cram sessions take every unsuspended card, due or not.
+    if (config.order === 'priority' && config.direction === DEFAULT_DIRECTION && !config.cram) {
+      query = query.or(`due_at.is.null,due_at.lte.${new Date().toISOString()}`);
+    }
+
+    // Apply category filter if specific categories are chosen
+    if (categories.length > 0) {
+      query = query.in('category', categories);
     }
 
     const { data, error } = await query;
@@ -154,38 +414,279 @@ export const storage = {
       return [];
     }
 
-    return (data as CharacterRow[]).map(this.mapRowToCharacter);
+    const characters = await this.applyDirection(
+      (data as CharacterRow[]).map(this.mapRowToCharacter),
+      config.direction
+    );
+
+    return flashcardLogic.selectCards(
+      characters,
+      config,
+      { settings, deckSettings, progressByCategory },
+      categories.length > 1
+        ? Object.fromEntries(categories.map(category => [category, weights[category] ?? 1]))
+        : {}
+    );
   },
 
-  // Record answer for a character
-  async recordAnswer(id: string, isCorrect: boolean): Promise<void> {
-    // First get the current character data
-    const { data: currentData, error: fetchError } = await supabase
+  // Count new cards introduced and reviews done since local midnight
+  async getDailyProgress(): Promise<DailyProgress> {
+    const byCategory = await this.getDailyProgressByCategory();
+    return scheduler.sumProgress(Object.values(byCategory));
+  },
+
+  // Today's progress split by category, so categories with their own preset can be
+  // held to their own daily limits. Each direction of a card counts on its own.
+  async getDailyProgressByCategory(): Promise<Record<string, DailyProgress>> {
+    const today = startOfDay(new Date());
+    const todaysReviews: Review[] = await this.getReviews({ since: today });
+    const cardKey = (characterId: string, direction: CardDirection) => `${characterId}:${direction}`;
+    const reviewedCards = new Map(
+      todaysReviews.map(review => [cardKey(review.characterId, review.direction), review])
+    );
+    const reviewedIds: string[] = [...new Set(todaysReviews.map(review => review.characterId))];
+
+    if (reviewedIds.length === 0) {
+      return {};
+    }
+
+    const { data: cards, error: cardsError } = await supabase
       .from('characters')
-      .select('score, attempts, correct_count')
-      .eq('id', id)
-      .single();
+      .select('id, category')
+      .in('id', reviewedIds);
 
-    if (fetchError || !currentData) {
-      console.error('Error fetching character for update:', fetchError);
-      return;
+    if (cardsError) {
+      console.error('Error fetching daily progress:', cardsError);
+      return {};
+    }
+
+    // Cards with reviews before today were already known; the rest were new today.
+    // Paged like getReviews, since old cards can have far more reviews than one page.
+    const knownCards = new Set<string>();
+    for (let from = 0; ; from += REVIEW_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('character_id, direction')
+        .in('character_id', reviewedIds)
+        .lt('reviewed_at', today.toISOString())
+        .order('id', { ascending: true })
+        .range(from, from + REVIEW_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching daily progress:', error);
+        return {};
+      }
+
+      const page = data as { character_id: string; direction: CardDirection }[];
+      page.forEach(row => knownCards.add(cardKey(row.character_id, row.direction)));
+      if (page.length < REVIEW_PAGE_SIZE) break;
+    }
+
+    const categoryById = new Map(
+      (cards as { id: string; category: string }[]).map(row => [row.id, row.category])
+    );
+    const progress: Record<string, DailyProgress> = {};
+
+    for (const [key, review] of reviewedCards) {
+      const category = categoryById.get(review.characterId);
+      if (category === undefined) continue;
+
+      const current = progress[category] ?? { newCardsStudied: 0, reviewsDone: 0 };
+      progress[category] = knownCards.has(key)
+        ? { ...current, reviewsDone: current.reviewsDone + 1 }
+        : { ...current, newCardsStudied: current.newCardsStudied + 1 };
+    }
+
+    return progress;
+  },
+
+  // Record answer for a character. Returns the character before and after, or null on failure.
+  // The new schedule is computed here from the character as last seen; the record_answer
+  // function applies it and logs the review in one transaction, and reports a conflict if
+  // the card was answered elsewhere in the meantime, in which case we recompute and retry.
+  async recordAnswer(character: Character, grade: Grade, context: ReviewContext = {}): Promise<RecordedAnswer | null> {
+    const now = context.answeredAt ?? new Date();
+    const rating = scheduler.ratingFromGrade(grade);
+    const settings = await presetStorage.getSettingsForCategory(character.category);
+    const direction = context.direction ?? DEFAULT_DIRECTION;
+    let current = character;
+
+    for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS; attempt++) {
+      const nextState = context.isLearningStep ? null : scheduler.next(current, rating, settings, now);
+
+      const { data, error } = await supabase.rpc('record_answer', {
+        target_character_id: current.id,
+        answer_grade: rating,
+        answered_at: now.toISOString(),
+        update_schedule: nextState !== null,
+        expected_last_reviewed: current.lastReviewed.toISOString(),
+        ...(nextState && {
+          new_ease_factor: nextState.easeFactor,
+          new_interval_days: nextState.intervalDays,
+          new_repetitions: nextState.repetitions,
+          new_due_at: nextState.dueAt ? nextState.dueAt.toISOString() : null,
+          new_stability: nextState.stability,
+          new_difficulty: nextState.difficulty
+        }),
+        answer_response_time_ms: context.responseTimeMs ?? null,
+        answer_flip_time_ms: context.flipTimeMs ?? null,
+        answer_mode: context.mode ?? 'flashcard',
+        answer_session_id: context.sessionId ?? null,
+        answer_direction: direction,
+        answer_client_id: context.clientId ?? null
+      });
+
+      if (error) {
+        console.error('Error recording answer:', error);
+        return null;
+      }
+
+      const result = data as RecordAnswerResult;
+      if (result.conflict) {
+        current = this.mapRowToCharacter(result.previous);
+        continue;
+      }
+
+      // Logged only once the review exists, so undoing it takes the tones with it
+      if (context.toneAnswers && context.toneAnswers.length > 0 && result.review_id) {
+        await toneStorage.recordAnswers(current.id, result.review_id, context.toneAnswers, now);
+      }
+
+      return {
+        // A duplicate only knows the card as it is now; undo restores it as answered
+        previous: result.duplicate ? character : this.mapRowToCharacter(result.previous),
+        updated: this.mapRowToCharacter(result.updated),
+        direction,
+        reviewId: result.review_id
+      };
     }
 
-    const updates = {
-      attempts: currentData.attempts + 1,
-      correct_count: isCorrect ? currentData.correct_count + 1 : currentData.correct_count,
-      score: isCorrect ? currentData.score + 1 : Math.max(0, currentData.score - 1),
-      last_reviewed: new Date().toISOString()
+    console.error('Error recording answer: card kept changing, giving up');
+    return null;
+  },
+
+  // Revert a recorded answer: restore the character's counters and schedule and
+  // remove the logged review
+  async undoAnswer(recorded: RecordedAnswer): Promise<void> {
+    const { previous, direction } = recorded;
+    const schedule: SchedulingState = {
+      lastReviewed: previous.lastReviewed,
+      easeFactor: previous.easeFactor,
+      intervalDays: previous.intervalDays,
+      repetitions: previous.repetitions,
+      dueAt: previous.dueAt,
+      stability: previous.stability,
+      difficulty: previous.difficulty
     };
 
-    const { error } = await supabase
-      .from('characters')
-      .update(updates)
-      .eq('id', id);
+    await this.updateCharacter(previous.id, {
+      score: previous.score,
+      attempts: previous.attempts,
+      correctCount: previous.correctCount,
+      lapses: previous.lapses,
+      isLeech: previous.isLeech,
+      suspended: previous.suspended,
+      // The character row only holds the default direction's schedule
+      ...(direction === DEFAULT_DIRECTION && schedule)
+    });
+
+    if (direction !== DEFAULT_DIRECTION) {
+      const { error } = await supabase
+        .from('card_states')
+        .update({
+          ease_factor: schedule.easeFactor,
+          interval_days: schedule.intervalDays,
+          repetitions: schedule.repetitions,
+          due_at: schedule.dueAt ? schedule.dueAt.toISOString() : null,
+          stability: schedule.stability,
+          difficulty: schedule.difficulty,
+          last_reviewed: schedule.lastReviewed.toISOString()
+        })
+        .eq('character_id', previous.id)
+        .eq('direction', direction);
+
+      if (error) {
+        console.error('Error restoring card state:', error);
+      }
+    }
 
-    if (error) {
-      console.error('Error recording answer:', error);
+    if (recorded.reviewId) {
+      const { error } = await supabase
+        .from('reviews')
+        .delete()
+        .eq('id', recorded.reviewId);
+
+      if (error) {
+        console.error('Error removing review:', error);
+      }
+    }
+  },
+
+  // Get logged reviews, oldest first. Without a limit every matching review is returned.
+  async getReviews({ characterId, since, limit }: ReviewQuery = {}): Promise<Review[]> {
+    const reviews: Review[] = [];
+
+    for (let from = 0; ; from += REVIEW_PAGE_SIZE) {
+      const pageSize = limit !== undefined ? Math.min(REVIEW_PAGE_SIZE, limit - reviews.length) : REVIEW_PAGE_SIZE;
+      if (pageSize <= 0) break;
+
+      let query = supabase
+        .from('reviews')
+        .select('*')
+        .order('reviewed_at', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (characterId) {
+        query = query.eq('character_id', characterId);
+      }
+      if (since) {
+        query = query.gte('reviewed_at', since.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching reviews:', error);
+        return reviews;
+      }
+
+      const page: Review[] = (data as ReviewRow[]).map(this.mapRowToReview);
+      reviews.push(...page);
+      if (page.length < pageSize) break;
     }
+
+    return reviews;
+  },
+
+  // Average time to flip and to answer per character, from reviews that were timed.
+  // The averages come from the review_response_times view, one row per character.
+  async getResponseTimes(): Promise<Record<string, ResponseTimeStats>> {
+    const stats: Record<string, ResponseTimeStats> = {};
+
+    for (let from = 0; ; from += REVIEW_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('review_response_times')
+        .select('*')
+        .order('character_id', { ascending: true })
+        .range(from, from + REVIEW_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching response times:', error);
+        return stats;
+      }
+
+      const page = data as ResponseTimeRow[];
+      for (const row of page) {
+        stats[row.character_id] = {
+          averageFlipMs: row.average_flip_ms,
+          averageAnswerMs: row.average_answer_ms,
+          timedReviews: row.timed_reviews
+        };
+      }
+      if (page.length < REVIEW_PAGE_SIZE) break;
+    }
+
+    return stats;
   },
 
   // Get all unique categories
@@ -245,6 +746,45 @@ export const storage = {
       score: row.score,
       attempts: row.attempts,
       correctCount: row.correct_count,
+      lastReviewed: new Date(row.last_reviewed),
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      dueAt: row.due_at ? new Date(row.due_at) : null,
+      stability: row.stability,
+      difficulty: row.difficulty,
+      lapses: row.lapses,
+      isLeech: row.is_leech,
+      suspended: row.suspended,
+      buriedUntil: row.buried_until ? new Date(row.buried_until) : null,
+      createdAt: new Date(row.created_at)
+    };
+  },
+
+  // Helper to map DB row to Review interface
+  mapRowToReview(row: ReviewRow): Review {
+    return {
+      id: row.id,
+      characterId: row.character_id,
+      reviewedAt: new Date(row.reviewed_at),
+      grade: row.grade,
+      responseTimeMs: row.response_time_ms,
+      flipTimeMs: row.flip_time_ms,
+      mode: row.mode,
+      direction: row.direction,
+      sessionId: row.session_id
+    };
+  },
+
+  // Helper to map a card_states row to the scheduling fields it overrides
+  mapRowToSchedulingState(row: CardStateRow): SchedulingState {
+    return {
+      easeFactor: row.ease_factor,
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      dueAt: row.due_at ? new Date(row.due_at) : null,
+      stability: row.stability,
+      difficulty: row.difficulty,
       lastReviewed: new Date(row.last_reviewed)
     };
   }
@@ -0,0 +1,111 @@
+// Stroke-order data for single characters, in the Make Me a Hanzi format, served from
+// public/strokes/<code point in hex>.json (see scripts/build-stroke-data.mjs)
+
+// Point in the 1024 × 1024 drawing box, y pointing down
+export type Point = [number, number];
+
+export interface StrokeData {
+  character: string;
+  // Outline of each stroke as an SVG path, in Make Me a Hanzi's y-up coordinates
+  strokes: string[];
+  // Centre line of each stroke, in writing order
+  medians: Point[][];
+}
+
+export const STROKE_BOX_SIZE = 1024;
+
+// Make Me a Hanzi stores y pointing up with the baseline at 900
+export const STROKE_BASELINE = 900;
+
+// How close a drawn stroke has to be to the expected one, in drawing box units
+const MAX_AVERAGE_DISTANCE = 180;
+const MAX_END_DISTANCE = 260;
+// Points both strokes are resampled to before comparing
+const RESAMPLE_POINTS = 16;
+
+// Loaded files (or misses), shared by every pad and viewer on the page
+const cache = new Map<string, Promise<StrokeData | null>>();
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const pathLength = (points: Point[]) =>
+  points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+
+// Evenly spaced points along a polyline
+const resample = (points: Point[], count: number): Point[] => {
+  if (points.length < 2) {
+    return Array.from({ length: count }, () => points[0] ?? [0, 0]);
+  }
+
+  const total = pathLength(points);
+  const step = total / (count - 1);
+  const result: Point[] = [points[0]];
+  let travelled = 0;
+  let segment = 1;
+
+  for (let i = 1; i < count - 1; i++) {
+    const target = i * step;
+    while (segment < points.length - 1 && travelled + distance(points[segment - 1], points[segment]) < target) {
+      travelled += distance(points[segment - 1], points[segment]);
+      segment++;
+    }
+    const [from, to] = [points[segment - 1], points[segment]];
+    const length = distance(from, to) || 1;
+    const t = Math.min(1, (target - travelled) / length);
+    result.push([from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+  }
+
+  result.push(points[points.length - 1]);
+  return result;
+};
+
+export const strokeData = {
+  // Fetch a character's strokes, or null if it is not in the bundled data
+  load(character: string): Promise<StrokeData | null> {
+    const cached = cache.get(character);
+    if (cached) {
+      return cached;
+    }
+
+    const code = character.codePointAt(0)?.toString(16);
+    const request = fetch(`${import.meta.env.BASE_URL}strokes/${code}.json`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => (data ? this.toDrawingBox(data as StrokeData) : null))
+      .catch(error => {
+        console.error('Error loading stroke data:', error);
+        return null;
+      });
+
+    cache.set(character, request);
+    return request;
+  },
+
+  // Flip medians so y points down, matching canvas and pointer coordinates
+  toDrawingBox(data: StrokeData): StrokeData {
+    return {
+      ...data,
+      medians: data.medians.map(median => median.map(([x, y]): Point => [x, STROKE_BASELINE - y]))
+    };
+  },
+
+  // The hanzi of an entry that can be drawn, in order (punctuation and latin skipped)
+  hanzi(text: string): string[] {
+    return [...text].filter(char => /\p{Script=Han}/u.test(char));
+  },
+
+  // Whether a drawn stroke follows the expected median closely enough: similar shape,
+  // same start and end, drawn in the same direction and of a similar length
+  matches(drawn: Point[], median: Point[]): boolean {
+    if (drawn.length < 2) return false;
+
+    const a = resample(drawn, RESAMPLE_POINTS);
+    const b = resample(median, RESAMPLE_POINTS);
+    const average = a.reduce((sum, point, index) => sum + distance(point, b[index]), 0) / RESAMPLE_POINTS;
+    const lengthRatio = pathLength(drawn) / Math.max(1, pathLength(median));
+
+    return average <= MAX_AVERAGE_DISTANCE &&
+      distance(a[0], b[0]) <= MAX_END_DISTANCE &&
+      distance(a[a.length - 1], b[b.length - 1]) <= MAX_END_DISTANCE &&
+      lengthRatio >= 0.35 && lengthRatio <= 2.5;
+  }
+};
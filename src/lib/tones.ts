@@ -0,0 +1,151 @@
+import { supabase } from './supabase';
+import { Grade } from './scheduler';
+import { NEUTRAL_TONE } from './pinyin';
+
+export const TONES = [1, 2, 3, 4, NEUTRAL_TONE];
+
+export const TONE_LABELS: Record<number, string> = {
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+  [NEUTRAL_TONE]: 'Neutral'
+};
+
+// Contour marks shown on the tone buttons
+export const TONE_MARKS: Record<number, string> = {
+  1: 'ˉ',
+  2: 'ˊ',
+  3: 'ˇ',
+  4: 'ˋ',
+  [NEUTRAL_TONE]: '·'
+};
+
+// Tone picked for one syllable of a card
+export interface ToneAnswer {
+  expected: number;
+  chosen: number;
+}
+
+export interface ToneStat {
+  attempts: number;
+  correct: number;
+}
+
+export interface ToneStats {
+  // Keyed by tone, e.g. "3"
+  tones: Record<string, ToneStat>;
+  // Keyed by adjacent tones within a word, e.g. "3-3"; right only if both were right
+  pairs: Record<string, ToneStat>;
+}
+
+// Database row interface matching the tone_answers table
+interface ToneAnswerRow {
+  id: string;
+  user_id: string;
+  character_id: string | null;
+  position: number;
+  expected_tone: number;
+  chosen_tone: number;
+  previous_expected_tone: number | null;
+  previous_chosen_tone: number | null;
+  review_id: string | null;
+  answered_at: string;
+}
+
+// Rows fetched per request when reading the whole history
+const PAGE_SIZE = 1000;
+
+const addAttempt = (stats: Record<string, ToneStat>, key: string, correct: boolean) => {
+  const stat = stats[key] ?? { attempts: 0, correct: 0 };
+  stat.attempts++;
+  if (correct) stat.correct++;
+  stats[key] = stat;
+};
+
+export const toneDrill = {
+  // All tones right is Good, anything wrong is Again
+  grade(answers: ToneAnswer[]): Grade {
+    return answers.every(answer => answer.chosen === answer.expected) ? 'good' : 'again';
+  },
+
+  pairKey(first: number, second: number): string {
+    return `${first}-${second}`;
+  },
+
+  // Tally answers per tone and per pair of neighbouring syllables
+  summarize(rows: Pick<ToneAnswerRow, 'expected_tone' | 'chosen_tone' | 'previous_expected_tone' | 'previous_chosen_tone'>[]): ToneStats {
+    const stats: ToneStats = { tones: {}, pairs: {} };
+
+    for (const row of rows) {
+      const correct = row.chosen_tone === row.expected_tone;
+      addAttempt(stats.tones, String(row.expected_tone), correct);
+
+      if (row.previous_expected_tone !== null && row.previous_chosen_tone !== null) {
+        addAttempt(
+          stats.pairs,
+          this.pairKey(row.previous_expected_tone, row.expected_tone),
+          correct && row.previous_chosen_tone === row.previous_expected_tone
+        );
+      }
+    }
+
+    return stats;
+  }
+};
+
+export const toneStorage = {
+  // Log the tones picked for one card, syllable by syllable, against the review of the
+  // answer. Deleting the review (undo) deletes them too; writing them again is a no-op.
+  async recordAnswers(characterId: string, reviewId: string, answers: ToneAnswer[], answeredAt: Date): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      console.error('User must be authenticated to record tone answers');
+      return;
+    }
+
+    const rows = answers.map((answer, index) => ({
+      user_id: user.id,
+      character_id: characterId,
+      position: index,
+      expected_tone: answer.expected,
+      chosen_tone: answer.chosen,
+      previous_expected_tone: index > 0 ? answers[index - 1].expected : null,
+      previous_chosen_tone: index > 0 ? answers[index - 1].chosen : null,
+      review_id: reviewId,
+      answered_at: answeredAt.toISOString()
+    }));
+
+    const { error } = await supabase
+      .from('tone_answers')
+      .upsert(rows, { onConflict: 'review_id,position', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error recording tone answers:', error);
+    }
+  },
+
+  // Accuracy per tone and tone pair over everything drilled so far
+  async getStats(): Promise<ToneStats> {
+    const rows: ToneAnswerRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('tone_answers')
+        .select('*')
+        .order('answered_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching tone answers:', error);
+        break;
+      }
+
+      rows.push(...(data as ToneAnswerRow[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return toneDrill.summarize(rows);
+  }
+};
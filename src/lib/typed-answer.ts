@@ -0,0 +1,228 @@
+import { Character } from './storage';
+import { Grade } from './scheduler';
+import { CardDirection } from './flashcard-logic';
+import { pinyin } from './pinyin';
+
+// Field of the card a typed answer was checked against
+export type AnswerField = 'pinyin' | 'english' | 'chinese';
+
+// correct = exact after normalising; close = right word with wrong tones or a small typo
+export type AnswerVerdict = 'correct' | 'close' | 'wrong';
+
+// One run of a character-level diff between the typed and the expected answer
+export interface DiffPart {
+  text: string;
+  // same = typed correctly; extra = typed but not expected; missing = expected but not typed
+  type: 'same' | 'extra' | 'missing';
+}
+
+export interface TypedAnswerResult {
+  verdict: AnswerVerdict;
+  grade: Grade;
+  field: AnswerField;
+  // The accepted answer closest to what was typed, as shown to the user
+  expected: string;
+  diff: DiffPart[];
+  // Short explanation for a close answer, e.g. "Check the tones"
+  note: string | null;
+}
+
+export const ANSWER_FIELD_LABELS: Record<AnswerField, string> = {
+  pinyin: 'Pinyin',
+  english: 'Meaning',
+  chinese: 'Characters'
+};
+
+const VERDICT_GRADES: Record<AnswerVerdict, Grade> = {
+  correct: 'good',
+  close: 'hard',
+  wrong: 'again'
+};
+
+const VERDICT_RANK: Record<AnswerVerdict, number> = { correct: 0, close: 1, wrong: 2 };
+
+// Answers accepted for each direction; the prompt's own field is never asked for
+const ACCEPTED_FIELDS: Record<CardDirection, AnswerField[]> = {
+  'chinese-meaning': ['pinyin', 'english'],
+  'meaning-chinese': ['chinese', 'pinyin'],
+  'pinyin-chinese': ['chinese'],
+  listening: ['chinese', 'english']
+};
+
+// Typed answer checked against one accepted answer
+interface Match {
+  verdict: AnswerVerdict;
+  field: AnswerField;
+  expected: string;
+  // Normalised forms that are diffed and used to pick the closest answer
+  typedForm: string;
+  expectedForm: string;
+  note: string | null;
+}
+
+// Edit distance between two strings (insertions, deletions and substitutions)
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Distance relative to length, to compare matches of different fields
+const relativeDistance = (match: Match) =>
+  levenshtein(match.typedForm, match.expectedForm) /
+  Math.max(1, match.typedForm.length, match.expectedForm.length);
+
+export const typedAnswer = {
+  // "to eat; food, meal" → ["to eat", "food", "meal"]
+  splitSynonyms(english: string): string[] {
+    return english.split(/[;,]/).map(part => part.trim()).filter(Boolean);
+  },
+
+  // Lowercase, drop notes in brackets, punctuation, articles and a leading "to"
+  normalizeEnglish(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/\([^)]*\)/g, ' ')
+      .replace(/[^a-z0-9\s']/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^(to|a|an|the) /, '');
+  },
+
+  // Typos allowed in an English answer of this length before it counts as wrong
+  typoTolerance(length: number): number {
+    if (length >= 9) return 2;
+    if (length >= 5) return 1;
+    return 0;
+  },
+
+  checkPinyin(character: Character, input: string): Match {
+    const typed = pinyin.toKey(input);
+    const expected = pinyin.toKey(character.pinyin);
+    const sameLetters = typed.letters === expected.letters;
+    const sameTones = typed.tones.join() === expected.tones.join();
+
+    return {
+      verdict: sameLetters ? (sameTones ? 'correct' : 'close') : 'wrong',
+      field: 'pinyin',
+      expected: character.pinyin,
+      // Spacing between syllables is optional, so leave it out of the diff
+      typedForm: pinyin.toNumbered(input).replace(/\s+/g, ''),
+      expectedForm: pinyin.toNumbered(character.pinyin).replace(/\s+/g, ''),
+      note: sameLetters && !sameTones ? 'Check the tones' : null
+    };
+  },
+
+  checkEnglish(character: Character, input: string): Match {
+    const typed = this.normalizeEnglish(input);
+    const synonyms = this.splitSynonyms(character.english);
+    const matches = (synonyms.length > 0 ? synonyms : [character.english]).map((synonym): Match => {
+      const expected = this.normalizeEnglish(synonym);
+      const distance = levenshtein(typed, expected);
+      const isClose = distance > 0 && distance <= this.typoTolerance(expected.length);
+      return {
+        verdict: distance === 0 ? 'correct' : isClose ? 'close' : 'wrong',
+        field: 'english',
+        expected: synonym,
+        typedForm: typed,
+        expectedForm: expected,
+        note: isClose ? 'Small typo' : null
+      };
+    });
+    return this.closest(matches);
+  },
+
+  checkChinese(character: Character, input: string): Match {
+    const typed = input.replace(/\s+/g, '');
+    const expected = character.chinese.replace(/\s+/g, '');
+    return {
+      verdict: typed === expected ? 'correct' : 'wrong',
+      field: 'chinese',
+      expected: character.chinese,
+      typedForm: typed,
+      expectedForm: expected,
+      note: null
+    };
+  },
+
+  // Best verdict first, then the answer nearest to what was typed
+  closest(matches: Match[]): Match {
+    return [...matches].sort((a, b) =>
+      VERDICT_RANK[a.verdict] - VERDICT_RANK[b.verdict] || relativeDistance(a) - relativeDistance(b)
+    )[0];
+  },
+
+  // Check a typed answer against every answer accepted for the direction and derive
+  // the grade: correct → Good, close → Hard, wrong → Again
+  check(character: Character, input: string, direction: CardDirection): TypedAnswerResult {
+    const matches = ACCEPTED_FIELDS[direction].map(field => {
+      switch (field) {
+        case 'pinyin':
+          return this.checkPinyin(character, input);
+        case 'english':
+          return this.checkEnglish(character, input);
+        default:
+          return this.checkChinese(character, input);
+      }
+    });
+    const match = this.closest(matches);
+
+    return {
+      verdict: match.verdict,
+      grade: VERDICT_GRADES[match.verdict],
+      field: match.field,
+      expected: match.expected,
+      diff: this.diff(match.typedForm, match.expectedForm),
+      note: match.note
+    };
+  },
+
+  // Character-level diff from the longest common subsequence
+  diff(typed: string, expected: string): DiffPart[] {
+    const a = [...typed];
+    const b = [...expected];
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (text: string, type: DiffPart['type']) => {
+      const last = parts[parts.length - 1];
+      if (last && last.type === type) {
+        last.text += text;
+      } else {
+        parts.push({ text, type });
+      }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        push(a[i], 'same');
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        push(a[i], 'extra');
+        i++;
+      } else {
+        push(b[j], 'missing');
+        j++;
+      }
+    }
+    return parts;
+  }
+};
@@ -4,3 +4,14 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Format a duration in milliseconds as seconds, e.g. "2.4s"
+export function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Parse space- or comma-separated minutes, e.g. "1 10" or "1m, 10m"
+export function parseSteps(value: string): number[] | null {
+  const parts = value.split(/[\s,]+/).filter(Boolean).map(part => Number(part.replace(/m$/, '')));
+  return parts.every(minutes => Number.isInteger(minutes) && minutes > 0) ? parts : null;
+}
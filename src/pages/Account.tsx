@@ -1,10 +1,12 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/lib/auth-context';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,7 +19,18 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { ArrowLeft, Loader2 } from 'lucide-react';
+import { ArrowLeft, Loader2, Volume2 } from 'lucide-react';
+import { settingsStorage, DEFAULT_SETTINGS, SchedulerAlgorithm, LeechAction } from '@/lib/settings';
+import { storage } from '@/lib/storage';
+import { fsrsOptimizer, MIN_TRAINING_REVIEWS } from '@/lib/fsrs-optimizer';
+import { parseSteps } from '@/lib/utils';
+import { speech } from '@/lib/speech';
+
+// Voice select value for letting the browser's best Chinese voice read
+const AUTOMATIC_VOICE = 'automatic';
+
+// Word read aloud when trying out a voice
+const SAMPLE_TEXT = '你好，欢迎学习中文';
 
 export default function Account() {
   const { user, updateProfile, updatePassword, deleteAccount } = useAuth();
@@ -26,6 +39,48 @@ export default function Account() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isUpdatingProfile, setIsUpdatingProfile] = useState(false);
   const [isUpdatingPassword, setIsUpdatingPassword] = useState(false);
+  const [algorithm, setAlgorithm] = useState<SchedulerAlgorithm>(DEFAULT_SETTINGS.algorithm);
+  const [desiredRetention, setDesiredRetention] = useState(String(DEFAULT_SETTINGS.desiredRetention * 100));
+  const [hasPersonalWeights, setHasPersonalWeights] = useState(false);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(String(DEFAULT_SETTINGS.newCardsPerDay));
+  const [maxReviewsPerDay, setMaxReviewsPerDay] = useState(String(DEFAULT_SETTINGS.maxReviewsPerDay));
+  const [learningSteps, setLearningSteps] = useState(DEFAULT_SETTINGS.learningSteps.join(' '));
+  const [relearningSteps, setRelearningSteps] = useState(DEFAULT_SETTINGS.relearningSteps.join(' '));
+  const [leechThreshold, setLeechThreshold] = useState(String(DEFAULT_SETTINGS.leechThreshold));
+  const [leechAction, setLeechAction] = useState<LeechAction>(DEFAULT_SETTINGS.leechAction);
+  const [slowRecallSeconds, setSlowRecallSeconds] = useState(String(DEFAULT_SETTINGS.slowRecallSeconds));
+  const [syncSession, setSyncSession] = useState(DEFAULT_SETTINGS.syncSession);
+  const [isUpdatingStudySettings, setIsUpdatingStudySettings] = useState(false);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  // Share of the optimiser's iterations done, 0-100
+  const [optimizeProgress, setOptimizeProgress] = useState(0);
+  // Pronunciation; the voice is chosen per device, the rest is saved to the account
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voiceName, setVoiceName] = useState(speech.getVoiceName() ?? AUTOMATIC_VOICE);
+  const [speechRate, setSpeechRate] = useState(String(DEFAULT_SETTINGS.speechRate));
+  const [autoPlayFront, setAutoPlayFront] = useState(DEFAULT_SETTINGS.autoPlayFront);
+  const [autoPlayBack, setAutoPlayBack] = useState(DEFAULT_SETTINGS.autoPlayBack);
+  const [isUpdatingAudioSettings, setIsUpdatingAudioSettings] = useState(false);
+
+  useEffect(() => {
+    settingsStorage.getSettings().then(settings => {
+      setAlgorithm(settings.algorithm);
+      setDesiredRetention(String(Math.round(settings.desiredRetention * 100)));
+      setHasPersonalWeights(settings.fsrsWeights !== null);
+      setNewCardsPerDay(String(settings.newCardsPerDay));
+      setMaxReviewsPerDay(String(settings.maxReviewsPerDay));
+      setLearningSteps(settings.learningSteps.join(' '));
+      setRelearningSteps(settings.relearningSteps.join(' '));
+      setLeechThreshold(String(settings.leechThreshold));
+      setSlowRecallSeconds(String(settings.slowRecallSeconds));
+      setLeechAction(settings.leechAction);
+      setSyncSession(settings.syncSession);
+      setSpeechRate(String(settings.speechRate));
+      setAutoPlayFront(settings.autoPlayFront);
+      setAutoPlayBack(settings.autoPlayBack);
+    });
+    speech.getVoices().then(setVoices);
+  }, []);
 
   const handleUpdateProfile = async () => {
     if (!name.trim()) {
@@ -45,6 +100,148 @@ export default function Account() {
     }
   };
 
+  const handleUpdateStudySettings = async () => {
+    const retention = Number(desiredRetention);
+    if (!Number.isFinite(retention) || retention < 70 || retention > 99) {
+      toast.error('Desired retention must be between 70% and 99%');
+      return;
+    }
+
+    const newLimit = Number(newCardsPerDay);
+    const reviewLimit = Number(maxReviewsPerDay);
+    if (!Number.isInteger(newLimit) || newLimit < 0 || !Number.isInteger(reviewLimit) || reviewLimit < 0) {
+      toast.error('Daily limits must be whole numbers of 0 or more');
+      return;
+    }
+
+    const parsedLearningSteps = parseSteps(learningSteps);
+    const parsedRelearningSteps = parseSteps(relearningSteps);
+    if (!parsedLearningSteps || !parsedRelearningSteps) {
+      toast.error('Steps must be positive numbers of minutes, e.g. "1 10"');
+      return;
+    }
+
+    const threshold = Number(leechThreshold);
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      toast.error('Leech threshold must be a whole number of 1 or more');
+      return;
+    }
+
+    const slowRecall = Number(slowRecallSeconds);
+    if (!Number.isFinite(slowRecall) || slowRecall < 0) {
+      toast.error('Slow recall time must be 0 or more seconds');
+      return;
+    }
+
+    setIsUpdatingStudySettings(true);
+    try {
+      const saved = await settingsStorage.updateSettings({
+        algorithm,
+        desiredRetention: retention / 100,
+        newCardsPerDay: newLimit,
+        maxReviewsPerDay: reviewLimit,
+        learningSteps: parsedLearningSteps,
+        relearningSteps: parsedRelearningSteps,
+        leechThreshold: threshold,
+        leechAction,
+        slowRecallSeconds: slowRecall,
+        syncSession
+      });
+      if (!saved) {
+        throw new Error('Failed to save study settings');
+      }
+      toast.success('Study settings updated');
+    } catch (error) {
+      console.error('Study settings update error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save study settings');
+    } finally {
+      setIsUpdatingStudySettings(false);
+    }
+  };
+
+  const handleOptimizeWeights = async () => {
+    setIsOptimizing(true);
+    setOptimizeProgress(0);
+    try {
+      const reviews = await storage.getReviews();
+      const result = await fsrsOptimizer.optimizeInBackground(
+        reviews.map(review => ({
+          characterId: review.characterId,
+          direction: review.direction,
+          reviewedAt: review.reviewedAt,
+          rating: review.grade
+        })),
+        (done, total) => setOptimizeProgress(Math.round((done / total) * 100))
+      );
+
+      if (result.trainingSize < MIN_TRAINING_REVIEWS) {
+        toast.error(`Not enough review history yet (${result.trainingSize} of ${MIN_TRAINING_REVIEWS} reviews)`);
+        return;
+      }
+
+      const saved = await settingsStorage.updateSettings({ fsrsWeights: result.weights });
+      if (!saved) {
+        throw new Error('Failed to save optimised weights');
+      }
+      setHasPersonalWeights(true);
+      toast.success(`Weights fitted to ${result.trainingSize} reviews`);
+    } catch (error) {
+      console.error('FSRS optimisation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to optimise weights');
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleResetWeights = async () => {
+    const saved = await settingsStorage.updateSettings({ fsrsWeights: null });
+    if (saved) {
+      setHasPersonalWeights(false);
+      toast.success('FSRS weights reset to defaults');
+    } else {
+      toast.error('Failed to reset weights');
+    }
+  };
+
+  const handleVoiceChange = (value: string) => {
+    setVoiceName(value);
+    speech.setVoiceName(value === AUTOMATIC_VOICE ? null : value);
+  };
+
+  const handleTestVoice = async () => {
+    const rate = Number(speechRate);
+    const played = await speech.speak(SAMPLE_TEXT, { rate: Number.isFinite(rate) && rate > 0 ? rate : 1 });
+    if (!played) {
+      toast.error('No Chinese voice is installed on this device');
+    }
+  };
+
+  const handleUpdateAudioSettings = async () => {
+    const rate = Number(speechRate);
+    if (!Number.isFinite(rate) || rate < 0.5 || rate > 2) {
+      toast.error('Speech rate must be between 0.5 and 2');
+      return;
+    }
+
+    setIsUpdatingAudioSettings(true);
+    try {
+      const saved = await settingsStorage.updateSettings({
+        speechRate: rate,
+        autoPlayFront,
+        autoPlayBack
+      });
+      if (!saved) {
+        throw new Error('Failed to save pronunciation settings');
+      }
+      toast.success('Pronunciation settings updated');
+    } catch (error) {
+      console.error('Pronunciation settings update error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save pronunciation settings');
+    } finally {
+      setIsUpdatingAudioSettings(false);
+    }
+  };
+
   const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -139,6 +336,269 @@ export default function Account() {
           </CardContent>
         </Card>
 
+        {/* Study Settings */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Study Settings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="algorithm">Scheduler</Label>
+              <Select
+                value={algorithm}
+                onValueChange={(value) => setAlgorithm(value as SchedulerAlgorithm)}
+                disabled={isUpdatingStudySettings}
+              >
+                <SelectTrigger id="algorithm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+                  <SelectItem value="fsrs">FSRS (adaptive)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {hasPersonalWeights
+                  ? 'FSRS is using weights fitted to your review history'
+                  : 'FSRS is using the default weights'}
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="desiredRetention">Desired retention (%)</Label>
+              <Input
+                id="desiredRetention"
+                type="number"
+                min={70}
+                max={99}
+                value={desiredRetention}
+                onChange={(e) => setDesiredRetention(e.target.value)}
+                disabled={isUpdatingStudySettings || algorithm !== 'fsrs'}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Higher retention means shorter intervals and more reviews
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="newCardsPerDay">New cards per day</Label>
+                <Input
+                  id="newCardsPerDay"
+                  type="number"
+                  min={0}
+                  value={newCardsPerDay}
+                  onChange={(e) => setNewCardsPerDay(e.target.value)}
+                  disabled={isUpdatingStudySettings}
+                />
+              </div>
+              <div>
+                <Label htmlFor="maxReviewsPerDay">Max reviews per day</Label>
+                <Input
+                  id="maxReviewsPerDay"
+                  type="number"
+                  min={0}
+                  value={maxReviewsPerDay}
+                  onChange={(e) => setMaxReviewsPerDay(e.target.value)}
+                  disabled={isUpdatingStudySettings}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="learningSteps">Learning steps (minutes)</Label>
+                <Input
+                  id="learningSteps"
+                  value={learningSteps}
+                  onChange={(e) => setLearningSteps(e.target.value)}
+                  placeholder="1 10"
+                  disabled={isUpdatingStudySettings}
+                />
+              </div>
+              <div>
+                <Label htmlFor="relearningSteps">Relearning steps (minutes)</Label>
+                <Input
+                  id="relearningSteps"
+                  value={relearningSteps}
+                  onChange={(e) => setRelearningSteps(e.target.value)}
+                  placeholder="10"
+                  disabled={isUpdatingStudySettings}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Missed and new cards come back within the session after each step before graduating
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="leechThreshold">Leech threshold (lapses)</Label>
+                <Input
+                  id="leechThreshold"
+                  type="number"
+                  min={1}
+                  value={leechThreshold}
+                  onChange={(e) => setLeechThreshold(e.target.value)}
+                  disabled={isUpdatingStudySettings}
+                />
+              </div>
+              <div>
+                <Label htmlFor="leechAction">Leech action</Label>
+                <Select
+                  value={leechAction}
+                  onValueChange={(value) => setLeechAction(value as LeechAction)}
+                  disabled={isUpdatingStudySettings}
+                >
+                  <SelectTrigger id="leechAction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tag">Tag only</SelectItem>
+                    <SelectItem value="suspend">Tag and suspend</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="slowRecallSeconds">Slow recall (seconds)</Label>
+              <Input
+                id="slowRecallSeconds"
+                type="number"
+                min={0}
+                step={0.5}
+                value={slowRecallSeconds}
+                onChange={(e) => setSlowRecallSeconds(e.target.value)}
+                disabled={isUpdatingStudySettings}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Good or Easy answers that took longer than this to recall are scheduled as Hard. 0 turns this off.
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="syncSession">Resume sessions on other devices</Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Save the unfinished study session to your account, not just this browser
+                </p>
+              </div>
+              <Switch
+                id="syncSession"
+                checked={syncSession}
+                onCheckedChange={setSyncSession}
+                disabled={isUpdatingStudySettings}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleUpdateStudySettings} disabled={isUpdatingStudySettings}>
+                {isUpdatingStudySettings ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Study Settings'
+                )}
+              </Button>
+              <Button variant="outline" onClick={handleOptimizeWeights} disabled={isOptimizing}>
+                {isOptimizing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Optimising... {optimizeProgress}%
+                  </>
+                ) : (
+                  'Optimise from History'
+                )}
+              </Button>
+              {hasPersonalWeights && (
+                <Button variant="ghost" onClick={handleResetWeights}>
+                  Reset Weights
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Pronunciation */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Pronunciation</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="voice">Voice on this device</Label>
+              <Select
+                value={voiceName}
+                onValueChange={handleVoiceChange}
+                disabled={voices.length === 0}
+              >
+                <SelectTrigger id="voice">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTOMATIC_VOICE}>Automatic</SelectItem>
+                  {voices.map(voice => (
+                    <SelectItem key={voice.name} value={voice.name}>
+                      {voice.name} ({voice.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {voices.length > 0
+                  ? 'Saved in this browser only, as each device has its own voices'
+                  : 'No Chinese voice is installed. Add one in your system\'s language or speech settings; until then listening cards show the pinyin.'}
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="speechRate">Speech rate</Label>
+              <Input
+                id="speechRate"
+                type="number"
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={speechRate}
+                onChange={(e) => setSpeechRate(e.target.value)}
+                disabled={isUpdatingAudioSettings}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                1 is normal speed; lower it to hear the tones more clearly
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="autoPlayFront">Play automatically on the front</Label>
+              <Switch
+                id="autoPlayFront"
+                checked={autoPlayFront}
+                onCheckedChange={setAutoPlayFront}
+                disabled={isUpdatingAudioSettings}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="autoPlayBack">Play automatically on the back</Label>
+              <Switch
+                id="autoPlayBack"
+                checked={autoPlayBack}
+                onCheckedChange={setAutoPlayBack}
+                disabled={isUpdatingAudioSettings}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleUpdateAudioSettings} disabled={isUpdatingAudioSettings}>
+                {isUpdatingAudioSettings ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Pronunciation Settings'
+                )}
+              </Button>
+              <Button variant="outline" onClick={handleTestVoice} disabled={voices.length === 0}>
+                <Volume2 className="mr-2 h-4 w-4" />
+                Test Voice
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Change Password */}
         <Card className="mb-6">
           <CardHeader>
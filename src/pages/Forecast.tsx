@@ -0,0 +1,254 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent
+} from '@/components/ui/chart';
+import { storage, Character } from '@/lib/storage';
+import { settingsStorage, UserSettings, SchedulerAlgorithm, DEFAULT_SETTINGS } from '@/lib/settings';
+import { presetStorage, DeckPreset } from '@/lib/presets';
+import { forecast } from '@/lib/forecast';
+
+const chartConfig = {
+  reviews: { label: 'Reviews', color: 'hsl(221, 83%, 53%)' },
+  newCards: { label: 'New cards', color: 'hsl(142, 71%, 45%)' }
+} satisfies ChartConfig;
+
+export default function Forecast() {
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [presets, setPresets] = useState<DeckPreset[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [days, setDays] = useState(30);
+  // What-if inputs, starting from the user's current settings
+  const [algorithm, setAlgorithm] = useState<SchedulerAlgorithm>(DEFAULT_SETTINGS.algorithm);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(String(DEFAULT_SETTINGS.newCardsPerDay));
+  const [desiredRetention, setDesiredRetention] = useState(String(DEFAULT_SETTINGS.desiredRetention * 100));
+  const [assumeNewCardsAdded, setAssumeNewCardsAdded] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [allCharacters, userSettings, allPresets, categoryPresets] = await Promise.all([
+          storage.getCharacters(),
+          settingsStorage.getSettings(),
+          presetStorage.getPresets(),
+          presetStorage.getAssignments()
+        ]);
+        // Every direction a card is studied in brings its own reviews
+        const otherDirections = await storage.getOtherDirectionCards(allCharacters);
+        setCharacters([...allCharacters, ...otherDirections]);
+        setSettings(userSettings);
+        setPresets(allPresets);
+        setAssignments(categoryPresets);
+        setAlgorithm(userSettings.algorithm);
+        setNewCardsPerDay(String(userSettings.newCardsPerDay));
+        setDesiredRetention(String(Math.round(userSettings.desiredRetention * 100)));
+      } catch (error) {
+        console.error('Failed to load forecast data:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const parsedNewCards = Number(newCardsPerDay);
+  const parsedRetention = Number(desiredRetention);
+  const isValid = Number.isInteger(parsedNewCards) && parsedNewCards >= 0 &&
+    parsedRetention >= 70 && parsedRetention <= 99;
+
+  const simulatedSettings = useMemo<UserSettings>(() => ({
+    ...settings,
+    algorithm,
+    newCardsPerDay: parsedNewCards,
+    desiredRetention: parsedRetention / 100
+  }), [settings, algorithm, parsedNewCards, parsedRetention]);
+
+  // Categories with a preset keep its limits and retention on top of the what-if settings
+  const deckSettings = useMemo(
+    () => presetStorage.resolveDeckSettings(simulatedSettings, presets, assignments),
+    [simulatedSettings, presets, assignments]
+  );
+
+  const forecastDays = useMemo(
+    () => isValid
+      ? forecast.simulate(characters, { days, settings: simulatedSettings, deckSettings, assumeNewCardsAdded })
+      : [],
+    [characters, days, simulatedSettings, deckSettings, assumeNewCardsAdded, isValid]
+  );
+
+  const chartData = forecastDays.map(day => ({
+    label: format(day.date, days > 30 ? 'MMM d' : 'EEE d'),
+    reviews: day.reviews,
+    newCards: day.newCards
+  }));
+
+  const totalReviews = forecastDays.reduce((sum, day) => sum + day.reviews, 0);
+  const peak = forecastDays.reduce((max, day) => Math.max(max, day.reviews + day.newCards), 0);
+  const overdue = forecastDays.length > 0 ? forecastDays[forecastDays.length - 1].overdue : 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link to="/">
+            <Button variant="outline" size="icon">
+              <ArrowLeft size={20} />
+            </Button>
+          </Link>
+        </div>
+
+        <h1 className="text-3xl font-bold mb-6">Workload Forecast</h1>
+
+        {/* Simulation inputs */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>What if...</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="days">Period</Label>
+                <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                  <SelectTrigger id="days">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">Next 30 days</SelectItem>
+                    <SelectItem value="90">Next 90 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="algorithm">Scheduler</Label>
+                <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as SchedulerAlgorithm)}>
+                  <SelectTrigger id="algorithm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+                    <SelectItem value="fsrs">FSRS (adaptive)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="newCardsPerDay">New cards per day</Label>
+                <Input
+                  id="newCardsPerDay"
+                  type="number"
+                  min={0}
+                  value={newCardsPerDay}
+                  onChange={(e) => setNewCardsPerDay(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="desiredRetention">Desired retention (%)</Label>
+                <Input
+                  id="desiredRetention"
+                  type="number"
+                  min={70}
+                  max={99}
+                  value={desiredRetention}
+                  onChange={(e) => setDesiredRetention(e.target.value)}
+                  disabled={algorithm !== 'fsrs'}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="assumeNewCardsAdded">Keep adding new cards</Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Introduce new cards every day even after your current new cards run out
+                </p>
+              </div>
+              <Switch
+                id="assumeNewCardsAdded"
+                checked={assumeNewCardsAdded}
+                onCheckedChange={setAssumeNewCardsAdded}
+              />
+            </div>
+            {!isValid && (
+              <p className="text-sm text-red-600">
+                New cards must be a whole number of 0 or more and retention between 70% and 99%
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Forecast */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Cards per day</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="bg-blue-50 p-4 rounded-lg">
+                <div className="text-2xl font-bold text-blue-600">{totalReviews}</div>
+                <div className="text-sm text-blue-700">Total reviews</div>
+              </div>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="text-2xl font-bold text-gray-800">
+                  {forecastDays.length > 0 ? Math.round(totalReviews / forecastDays.length) : 0}
+                </div>
+                <div className="text-sm text-gray-600">Reviews per day</div>
+              </div>
+              <div className="bg-orange-50 p-4 rounded-lg">
+                <div className="text-2xl font-bold text-orange-600">{peak}</div>
+                <div className="text-sm text-orange-700">Busiest day</div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="reviews" stackId="cards" fill="var(--color-reviews)" />
+                <Bar dataKey="newCards" stackId="cards" fill="var(--color-newCards)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+
+            {overdue > 0 && (
+              <p className="text-sm text-orange-700">
+                {overdue} reviews would be overdue by the end of the period because of your daily
+                review limits.
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Simulated by replaying the scheduler on copies of your cards in every direction you
+              study them, assuming you recall each card with its predicted probability. Categories
+              with a preset keep their own limits and retention. Suspended cards are left out;
+              nothing is saved.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
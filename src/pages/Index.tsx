@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -7,7 +7,9 @@ import {
   BookOpen,
   Settings,
   RotateCcw,
+  Undo2,
   Trophy,
+  PlayCircle,
   Loader2,
   MessageCircle,
   Trees,
@@ -23,12 +25,31 @@ import {
   Smile,
   Type,
   Lightbulb,
-  Globe
+  Globe,
+  ListChecks,
+  CheckCircle2,
+  SlidersHorizontal
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
 import FlashCard from '@/components/FlashCard';
-import { storage, Character } from '@/lib/storage';
-import { flashcardLogic, StudySession } from '@/lib/flashcard-logic';
+import TypedAnswerCard from '@/components/TypedAnswerCard';
+import QuizCard from '@/components/QuizCard';
+import WritingCard from '@/components/WritingCard';
+import ToneDrillCard from '@/components/ToneDrillCard';
+import ToneStatsSummary from '@/components/ToneStatsSummary';
+import SessionSetupDialog from '@/components/SessionSetupDialog';
+import DeckOptionsDialog from '@/components/DeckOptionsDialog';
+import { storage, Character, DailyProgress } from '@/lib/storage';
+import { answerOutbox } from '@/lib/answer-outbox';
+import { presetStorage } from '@/lib/presets';
+import { flashcardLogic, StudySession, SessionConfig, CategoryWeights, AnswerTiming } from '@/lib/flashcard-logic';
+import { scheduler, Grade, GRADE_LABELS, QueueLimits } from '@/lib/scheduler';
+import { settingsStorage, UserSettings, DEFAULT_SETTINGS } from '@/lib/settings';
+import { sessionStore, SavedSession } from '@/lib/session-store';
+import { ToneAnswer } from '@/lib/tones';
+import { formatSeconds } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
 
 // Helper function to get icon for category
 const getCategoryIcon = (category: string) => {
@@ -102,18 +123,55 @@ const getCategoryIcon = (category: string) => {
   return { Icon: BookMarked, color: 'text-indigo-600' };
 };
 
+// Session state before an answer, plus the queued answer to take back
+interface UndoEntry {
+  session: StudySession;
+  answerId: string | null;
+}
+
 export default function Index() {
   const [characters, setCharacters] = useState<Character[]>([]);
   const [session, setSession] = useState<StudySession | null>(null);
-  const [selectedCategory, setSelectedCategory] = useState('all');
+  // Categories of the current (or last) session; empty means all categories
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [categoryWeights, setCategoryWeights] = useState<CategoryWeights>({});
   const [showResults, setShowResults] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  // Settings of categories with their own preset, and today's progress per category
+  const [deckSettings, setDeckSettings] = useState<Record<string, UserSettings>>({});
+  const [progressByCategory, setProgressByCategory] = useState<Record<string, DailyProgress>>({});
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  // Categories whose session setup dialog is open
+  const [setupCategories, setSetupCategories] = useState<string[] | null>(null);
+  // Picking several categories on the grid to study together
+  const [isMultiSelect, setIsMultiSelect] = useState(false);
+  const [pickedCategories, setPickedCategories] = useState<string[]>([]);
+  // Category whose options dialog is open
+  const [optionsCategory, setOptionsCategory] = useState<string | null>(null);
+
+  // Last session setup choices, remembered in the user's settings
+  const sessionConfig = useMemo<SessionConfig>(() => ({
+    size: settings.sessionSize,
+    order: settings.sessionOrder,
+    direction: settings.cardDirection,
+    mode: settings.studyMode,
+    cram: false
+  }), [settings.sessionSize, settings.sessionOrder, settings.cardDirection, settings.studyMode]);
 
   useEffect(() => {
     const init = async () => {
       try {
         await storage.initializeSampleData();
         await loadCharacters();
+
+        // Offer to pick up an unfinished session from a reload or another device
+        const saved = await sessionStore.load();
+        if (saved && !flashcardLogic.isSessionComplete(saved.session)) {
+          setSavedSession(saved);
+        }
       } catch (error) {
         console.error('Failed to initialize:', error);
       } finally {
@@ -123,62 +181,274 @@ export default function Index() {
     init();
   }, []);
 
+  // Keep the active session saved so it survives reloads; forget it once finished
+  useEffect(() => {
+    if (!session) return;
+
+    if (showResults || flashcardLogic.isSessionComplete(session)) {
+      sessionStore.clear();
+    } else {
+      sessionStore.save(session);
+    }
+  }, [session, showResults]);
+
   const loadCharacters = async () => {
-    const allCharacters = await storage.getCharacters();
-    setCharacters(allCharacters);
+    const [allCharacters, userSettings, categorySettings, progress] = await Promise.all([
+      storage.getCharacters(),
+      settingsStorage.getSettings(),
+      presetStorage.getDeckSettings(),
+      storage.getDailyProgressByCategory()
+    ]);
+    // Due counts follow the direction last chosen for study
+    setCharacters(await storage.applyDirection(allCharacters, userSettings.cardDirection));
+    setSettings(userSettings);
+    setDeckSettings(categorySettings);
+    setProgressByCategory(progress);
   };
 
-  const handleCategoryClick = async (category: string) => {
-    setSelectedCategory(category);
-    const studyCharacters = await storage.getStudySession(category);
-    if (studyCharacters.length > 0) {
-      const newSession = flashcardLogic.createSession(studyCharacters);
-      setSession(newSession);
-      setShowResults(false);
+  const handleCategoryClick = (category: string) => {
+    if (isMultiSelect && category !== 'all') {
+      setPickedCategories(picked =>
+        picked.includes(category) ? picked.filter(c => c !== category) : [...picked, category]
+      );
+      return;
+    }
+    setSetupCategories(category === 'all' ? [] : [category]);
+  };
+
+  const toggleMultiSelect = () => {
+    setIsMultiSelect(!isMultiSelect);
+    setPickedCategories([]);
+  };
+
+  const studyPickedCategories = () => {
+    setSetupCategories([...pickedCategories].sort());
+    setIsMultiSelect(false);
+    setPickedCategories([]);
+  };
+
+  // Remember the chosen options for next time, then start
+  const handleSetupStart = async (config: SessionConfig, weights: CategoryWeights) => {
+    const categories = setupCategories ?? [];
+    setSetupCategories(null);
+    setSelectedCategories(categories);
+    setCategoryWeights(weights);
+
+    const updated = await settingsStorage.updateSettings({
+      sessionSize: config.size,
+      sessionOrder: config.order,
+      cardDirection: config.direction,
+      studyMode: config.mode
+    });
+    if (updated) {
+      setSettings(updated);
     }
+
+    await startSession(categories, config, weights);
   };
 
   const startStudySession = async () => {
-    const studyCharacters = await storage.getStudySession(selectedCategory);
+    await startSession(selectedCategories, { ...sessionConfig, cram: session?.cram ?? false }, categoryWeights);
+  };
+
+  const startSession = async (categories: string[], config: SessionConfig, weights: CategoryWeights) => {
+    // Write queued answers first so just-answered cards are not picked again
+    await answerOutbox.flush();
+    const studyCharacters = await storage.getStudySession(categories, config, weights);
     if (studyCharacters.length > 0) {
-      const newSession = flashcardLogic.createSession(studyCharacters);
+      const [userSettings, categorySettings] = await Promise.all([
+        settingsStorage.getSettings(),
+        presetStorage.getDeckSettings()
+      ]);
+      const newSession = flashcardLogic.createSession(studyCharacters, {
+        mode: config.mode,
+        direction: config.direction,
+        cram: config.cram,
+        categories,
+        learningSteps: userSettings.learningSteps,
+        relearningSteps: userSettings.relearningSteps,
+        categoryLearningSteps: Object.fromEntries(
+          Object.entries(categorySettings).map(([category, options]) => [category, options.learningSteps])
+        ),
+        slowRecallSeconds: userSettings.slowRecallSeconds
+      });
       setSession(newSession);
+      setSavedSession(null);
+      setUndoStack([]);
+      setShowResults(false);
+    } else {
+      if (config.order === 'priority') {
+        toast('Nothing due right now', {
+          description: 'All reviews are done and today\'s new card limit is reached.'
+        });
+      } else {
+        toast('No cards to study', {
+          description: 'Every card in the chosen categories is suspended or buried.'
+        });
+      }
+      setSession(null);
       setShowResults(false);
     }
   };
 
-  const handleAnswer = async (isCorrect: boolean) => {
+  const handleAnswer = async (grade: Grade, timing: AnswerTiming, toneAnswers?: ToneAnswer[]) => {
     if (!session) return;
 
     const currentCharacter = flashcardLogic.getCurrentCharacter(session);
     if (currentCharacter) {
-      // Record the answer in storage
-      await storage.recordAnswer(currentCharacter.id, isCorrect);
-      
+      const effectiveGrade = flashcardLogic.effectiveGrade(session, grade, timing);
+      if (effectiveGrade !== grade) {
+        toast(`Slow recall (${formatSeconds(timing.flipMs ?? timing.answerMs)}), counted as Hard`);
+      }
+
+      // Queue the answer to be saved in the background; cram answers stay in the session only
+      let answerId: string | null = null;
+      if (!session.cram) {
+        const queued = answerOutbox.enqueue(currentCharacter, effectiveGrade, {
+          sessionId: session.id,
+          mode: session.mode,
+          direction: session.direction,
+          responseTimeMs: timing.answerMs,
+          flipTimeMs: timing.flipMs,
+          isLearningStep: flashcardLogic.isLearningStep(session),
+          toneAnswers
+        });
+        answerId = queued.id;
+
+        queued.recorded.then(recorded => {
+          if (recorded?.updated.isLeech && !recorded.previous.isLeech) {
+            toast(`${currentCharacter.chinese} is now a leech`, {
+              description: recorded.updated.suspended
+                ? 'It has been suspended. Rewrite it or add a mnemonic from Manage Characters.'
+                : 'Consider rewriting it or adding a mnemonic from Manage Characters.'
+            });
+          }
+        });
+      }
+      setUndoStack(stack => [...stack, { session, answerId }]);
+
       // Update session
-      const updatedSession = flashcardLogic.recordAnswerAndNext(session, isCorrect);
+      const updatedSession = flashcardLogic.recordAnswerAndNext(session, grade, timing);
       setSession(updatedSession);
 
       // Check if session is complete
       if (flashcardLogic.isSessionComplete(updatedSession)) {
         setShowResults(true);
+        await answerOutbox.flush();
         await loadCharacters(); // Refresh character data
       }
     }
   };
 
+  // Step back to the state before the last answer and revert it in the database
+  const handleUndo = useCallback(async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isUndoing) return;
+
+    setIsUndoing(true);
+    try {
+      // Drop the answer if it is still queued, otherwise revert what was written
+      const recorded = entry.answerId ? await answerOutbox.revoke(entry.answerId) : null;
+      if (recorded) {
+        await storage.undoAnswer(recorded);
+      }
+      setUndoStack(stack => stack.slice(0, -1));
+      setSession(entry.session);
+      setShowResults(false);
+    } catch (error) {
+      console.error('Failed to undo answer:', error);
+      toast.error('Could not undo the last answer');
+    } finally {
+      setIsUndoing(false);
+    }
+  }, [undoStack, isUndoing]);
+
+  // Ctrl+Z / Cmd+Z undoes the last answer
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z') {
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo]);
+
+  // Take the current card out of study, then continue with the next one
+  const removeCurrentCard = async (action: (id: string) => Promise<void>, message: string) => {
+    if (!session) return;
+
+    const currentCharacter = flashcardLogic.getCurrentCharacter(session);
+    if (currentCharacter) {
+      await action(currentCharacter.id);
+      toast(`${currentCharacter.chinese} ${message}`);
+
+      const updatedSession = flashcardLogic.removeCurrent(session);
+      setSession(updatedSession);
+
+      if (flashcardLogic.isSessionComplete(updatedSession)) {
+        setShowResults(true);
+        await loadCharacters();
+      }
+    }
+  };
+
+  const handleSuspend = () => removeCurrentCard(id => storage.suspendCharacter(id), 'suspended');
+
+  const handleBury = () => removeCurrentCard(id => storage.buryCharacter(id), 'buried until tomorrow');
+
+  const resumeSession = () => {
+    if (!savedSession) return;
+
+    setSelectedCategories(savedSession.session.categories);
+    setCategoryWeights({});
+    setSession(savedSession.session);
+    setSavedSession(null);
+    setUndoStack([]);
+    setShowResults(false);
+  };
+
+  const discardSavedSession = () => {
+    setSavedSession(null);
+    sessionStore.clear();
+  };
+
   const resetSession = () => {
+    if (session) {
+      sessionStore.clear();
+    }
     setSession(null);
+    setUndoStack([]);
     setShowResults(false);
   };
 
   // Derive categories from loaded characters
   const categories = [...new Set(characters.map(char => char.category))].sort();
   
-  const characterCounts = categories.reduce((acc, category) => {
-    acc[category] = characters.filter(char => char.category === category).length;
+  // Due and new counts per category, capped by what is left of today's limits (the
+  // category's preset limits, or the account limits shared by categories without one)
+  const limits: QueueLimits = { settings, deckSettings, progressByCategory };
+  const countQueue = (cards: Character[]) =>
+    scheduler.groupByDeck(cards, limits).reduce((total, group) => {
+      const { due, new: fresh } = scheduler.countDueAndNew(group.cards);
+      const reviewAllowance = Math.max(0, group.settings.maxReviewsPerDay - group.progress.reviewsDone);
+      const newAllowance = Math.max(0, group.settings.newCardsPerDay - group.progress.newCardsStudied);
+      return {
+        due: total.due + Math.min(due, reviewAllowance),
+        new: total.new + Math.min(fresh, newAllowance)
+      };
+    }, { due: 0, new: 0 });
+
+  const studyable = characters.filter(char => scheduler.isAvailable(char));
+  const totalQueue = countQueue(studyable);
+  const queueCounts = categories.reduce((acc, category) => {
+    acc[category] = countQueue(studyable.filter(char => char.category === category));
     return acc;
-  }, {} as Record<string, number>);
+  }, {} as Record<string, { due: number; new: number }>);
 
   const currentCharacter = session ? flashcardLogic.getCurrentCharacter(session) : null;
   const stats = session ? flashcardLogic.getStats(session) : null;
@@ -203,6 +473,11 @@ export default function Index() {
                 <Trophy className="w-8 h-8 text-green-600" />
               </div>
               <CardTitle className="text-2xl">Session Complete!</CardTitle>
+              {session.cram && (
+                <p className="text-sm text-gray-500">
+                  Cram session: scores and review dates were left unchanged
+                </p>
+              )}
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
@@ -220,6 +495,15 @@ export default function Index() {
                 </div>
               </div>
               
+              <div className="grid grid-cols-4 gap-2">
+                {finalStats.grades.map(({ grade, count }) => (
+                  <div key={grade} className="bg-gray-50 p-3 rounded-lg">
+                    <div className="text-xl font-bold text-gray-800">{count}</div>
+                    <div className="text-xs text-gray-600">{GRADE_LABELS[grade]}</div>
+                  </div>
+                ))}
+              </div>
+
               <div className="bg-blue-50 p-4 rounded-lg">
                 <div className="text-3xl font-bold text-blue-600">
                   {finalStats.accuracy}%
@@ -227,6 +511,29 @@ export default function Index() {
                 <div className="text-sm text-blue-700">Accuracy</div>
               </div>
 
+              {finalStats.averageAnswerMs !== null && (
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <div className="text-xl font-bold text-gray-800">
+                      {finalStats.averageFlipMs !== null ? formatSeconds(finalStats.averageFlipMs) : 'N/A'}
+                    </div>
+                    <div className="text-xs text-gray-600">Avg time to flip</div>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <div className="text-xl font-bold text-gray-800">
+                      {formatSeconds(finalStats.averageAnswerMs)}
+                    </div>
+                    <div className="text-xs text-gray-600">Avg time to answer</div>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <div className="text-xl font-bold text-gray-800">{finalStats.slowAnswers}</div>
+                    <div className="text-xs text-gray-600">Slow, counted as Hard</div>
+                  </div>
+                </div>
+              )}
+
+              {session.mode === 'tones' && <ToneStatsSummary />}
+
               <div className="flex gap-4 justify-center">
                 <Button onClick={startStudySession} size="lg">
                   Study Again
@@ -235,6 +542,12 @@ export default function Index() {
                   <RotateCcw className="mr-2" size={20} />
                   Back to Menu
                 </Button>
+                {undoStack.length > 0 && (
+                  <Button variant="ghost" onClick={handleUndo} disabled={isUndoing} size="lg">
+                    <Undo2 className="mr-2" size={20} />
+                    Undo
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -251,11 +564,21 @@ export default function Index() {
           <div className="mb-6">
             <div className="flex justify-between items-center mb-2">
               <span className="text-sm font-medium">
-                Card {stats?.completed || 0} of {stats?.total || 0}
+                {stats?.completed || 0} of {stats?.total || 0} cards done
               </span>
-              <Badge variant="outline">
-                {selectedCategory === 'all' ? 'All Categories' : selectedCategory}
-              </Badge>
+              <div className="flex gap-2">
+                {session.cram && (
+                  <Badge className="bg-amber-500 hover:bg-amber-500" title="Answers are not saved and do not affect scheduling">
+                    Cram
+                  </Badge>
+                )}
+                {(stats?.learning || 0) > 0 && (
+                  <Badge variant="secondary">{stats?.learning} learning</Badge>
+                )}
+                <Badge variant="outline">
+                  {flashcardLogic.describeCategories(session.categories)}
+                </Badge>
+              </div>
             </div>
             <Progress value={progress} className="w-full" />
           </div>
@@ -282,15 +605,66 @@ export default function Index() {
             </Card>
           </div>
 
-          {/* Flashcard */}
-          <FlashCard
-            character={currentCharacter}
-            onAnswer={handleAnswer}
-            showAnswer={true}
-          />
-
-          {/* Back button */}
-          <div className="text-center mt-6">
+          {/* Card, in the session's study mode */}
+          {session.mode === 'typed' ? (
+            <TypedAnswerCard
+              character={currentCharacter}
+              direction={session.direction}
+              cardKey={stats?.answered}
+              onSuspend={session.cram ? undefined : handleSuspend}
+              onBury={session.cram ? undefined : handleBury}
+              onAnswer={handleAnswer}
+            />
+          ) : session.mode === 'quiz' ? (
+            <QuizCard
+              character={currentCharacter}
+              pool={characters}
+              direction={session.direction}
+              cardKey={stats?.answered}
+              onSuspend={session.cram ? undefined : handleSuspend}
+              onBury={session.cram ? undefined : handleBury}
+              onAnswer={handleAnswer}
+            />
+          ) : session.mode === 'writing' ? (
+            <WritingCard
+              character={currentCharacter}
+              direction={session.direction}
+              cardKey={stats?.answered}
+              onSuspend={session.cram ? undefined : handleSuspend}
+              onBury={session.cram ? undefined : handleBury}
+              onAnswer={handleAnswer}
+            />
+          ) : session.mode === 'tones' ? (
+            <ToneDrillCard
+              character={currentCharacter}
+              cardKey={stats?.answered}
+              onSuspend={session.cram ? undefined : handleSuspend}
+              onBury={session.cram ? undefined : handleBury}
+              onAnswer={handleAnswer}
+            />
+          ) : (
+            <FlashCard
+              character={currentCharacter}
+              direction={session.direction}
+              cardKey={stats?.answered}
+              onSuspend={session.cram ? undefined : handleSuspend}
+              onBury={session.cram ? undefined : handleBury}
+              onAnswer={handleAnswer}
+              showAnswer={true}
+            />
+          )}
+
+          {/* Session actions */}
+          <div className="flex gap-2 justify-center mt-6">
+            <Button
+              variant="outline"
+              onClick={handleUndo}
+              disabled={undoStack.length === 0 || isUndoing}
+              title="Undo last answer (Ctrl+Z)"
+            >
+              <Undo2 className="mr-2" size={16} />
+              Undo
+            </Button>
             <Button variant="outline" onClick={resetSession}>
               <RotateCcw className="mr-2" size={16} />
               End Session
@@ -311,6 +685,48 @@ export default function Index() {
           </p>
         </div>
 
+        {/* Resume an unfinished session */}
+        {savedSession && (
+          <Card className="mb-6 border-blue-300">
+            <CardContent className="p-4 flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div>
+                <div className="font-semibold">Unfinished session</div>
+                <div className="text-sm text-gray-600">
+                  {flashcardLogic.describeCategories(savedSession.session.categories)}
+                  {savedSession.session.cram && ' (cram)'}
+                  {' · '}
+                  {flashcardLogic.getStats(savedSession.session).completed} of {savedSession.session.totalCards} cards done
+                  {' · '}
+                  {formatDistanceToNow(savedSession.savedAt, { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={resumeSession}>
+                  <PlayCircle className="mr-2" size={16} />
+                  Resume session
+                </Button>
+                <Button variant="outline" onClick={discardSavedSession}>
+                  Discard
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <SessionSetupDialog
+          open={setupCategories !== null}
+          onOpenChange={(open) => !open && setSetupCategories(null)}
+          categories={setupCategories ?? []}
+          initialConfig={sessionConfig}
+          onStart={handleSetupStart}
+        />
+
+        <DeckOptionsDialog
+          category={optionsCategory}
+          onOpenChange={(open) => !open && setOptionsCategory(null)}
+          onSaved={loadCharacters}
+        />
+
         {/* Category cards */}
         {characters.length === 0 ? (
           <Card className="mb-6 text-center">
@@ -326,6 +742,27 @@ export default function Index() {
           </Card>
         ) : (
           <>
+            {/* Multi-category selection */}
+            {categories.length > 1 && (
+              <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+                {isMultiSelect && (
+                  <>
+                    <span className="text-sm text-gray-600">
+                      {pickedCategories.length === 0 ? 'Pick categories to combine' : pickedCategories.join(' + ')}
+                    </span>
+                    <Button size="sm" onClick={studyPickedCategories} disabled={pickedCategories.length === 0}>
+                      <PlayCircle className="mr-2" size={16} />
+                      Study selected ({pickedCategories.length})
+                    </Button>
+                  </>
+                )}
+                <Button size="sm" variant={isMultiSelect ? 'secondary' : 'outline'} onClick={toggleMultiSelect}>
+                  <ListChecks className="mr-2" size={16} />
+                  {isMultiSelect ? 'Cancel' : 'Combine categories'}
+                </Button>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
               {/* All Categories card */}
               <Button
@@ -335,23 +772,50 @@ export default function Index() {
               >
                 <BookOpen className="w-8 h-8 text-blue-600" />
                 <div className="text-lg font-semibold">All Categories</div>
-                <Badge variant="secondary">{characters.length} characters</Badge>
+                <Badge variant="secondary">{totalQueue.due} due / {totalQueue.new} new</Badge>
+                <span className="text-xs text-gray-500">{characters.length} characters</span>
               </Button>
 
               {/* Individual category cards */}
               {categories.map((category) => {
                 const { Icon, color } = getCategoryIcon(category);
+                const isPicked = pickedCategories.includes(category);
                 return (
-                  <Button
-                    key={category}
-                    variant="outline"
-                    className="h-auto p-6 flex flex-col items-center gap-2 hover:shadow-lg hover:scale-105 transition-all"
-                    onClick={() => handleCategoryClick(category)}
-                  >
-                    <Icon className={`w-8 h-8 ${color}`} />
-                    <div className="text-lg font-semibold">{category}</div>
-                    <Badge variant="secondary">{characterCounts[category]} characters</Badge>
-                  </Button>
+                  <div key={category} className="relative">
+                    <Button
+                      variant="outline"
+                      className={`relative w-full h-auto p-6 flex flex-col items-center gap-2 hover:shadow-lg hover:scale-105 transition-all ${
+                        isPicked ? 'ring-2 ring-blue-500 bg-blue-50' : ''
+                      }`}
+                      onClick={() => handleCategoryClick(category)}
+                      aria-pressed={isMultiSelect ? isPicked : undefined}
+                    >
+                      {isPicked && (
+                        <CheckCircle2 className="absolute top-2 right-2 w-5 h-5 text-blue-600" />
+                      )}
+                      <Icon className={`w-8 h-8 ${color}`} />
+                      <div className="text-lg font-semibold">{category}</div>
+                      <Badge variant="secondary">
+                        {queueCounts[category].due} due / {queueCounts[category].new} new
+                      </Badge>
+                      {deckSettings[category] && (
+                        <span className="text-xs text-gray-500">Own daily limits</span>
+                      )}
+                    </Button>
+                    {/* Options sit beside the tile rather than inside it, so they do not start a session */}
+                    {!isMultiSelect && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="absolute top-1 right-1 h-8 w-8 text-gray-500"
+                        title={`${category} options`}
+                        aria-label={`${category} options`}
+                        onClick={() => setOptionsCategory(category)}
+                      >
+                        <SlidersHorizontal size={16} />
+                      </Button>
+                    )}
+                  </div>
                 );
               })}
             </div>
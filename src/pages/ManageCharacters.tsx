@@ -3,11 +3,32 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, Plus, Pencil, Trash2, Search, Loader2 } from 'lucide-react';
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  Search,
+  Loader2,
+  BrainCircuit,
+  Bug,
+  RotateCcw,
+  PauseCircle,
+  PlayCircle,
+  EyeOff,
+  Eye
+} from 'lucide-react';
 import { Link, useSearchParams } from 'react-router-dom';
 import CharacterForm from '@/components/CharacterForm';
+import LeechHistory from '@/components/LeechHistory';
+import CharacterDetailDialog from '@/components/CharacterDetailDialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { storage, Character } from '@/lib/storage';
+import { storage, Character, NewCharacter, ResponseTimeStats } from '@/lib/storage';
+import { scheduler } from '@/lib/scheduler';
+import { settingsStorage, DEFAULT_SETTINGS } from '@/lib/settings';
+import { presetStorage } from '@/lib/presets';
+import { formatSeconds } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
 
 export default function ManageCharacters() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -15,7 +36,17 @@ export default function ManageCharacters() {
   const [filteredCharacters, setFilteredCharacters] = useState<Character[]>([]);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [showLikelyToForget, setShowLikelyToForget] = useState(false);
+  const [showLeeches, setShowLeeches] = useState(false);
+  const [showSuspended, setShowSuspended] = useState(false);
+  const [responseTimes, setResponseTimes] = useState<Record<string, ResponseTimeStats>>({});
+  const [desiredRetention, setDesiredRetention] = useState(DEFAULT_SETTINGS.desiredRetention);
+  // Target retention of categories whose preset sets their own
+  const [deckRetention, setDeckRetention] = useState<Record<string, number>>({});
+  // Each card as it stands in the user's study direction, by id
+  const [schedules, setSchedules] = useState<Record<string, Character>>({});
   const [editingCharacter, setEditingCharacter] = useState<Character | null>(null);
+  const [detailCharacter, setDetailCharacter] = useState<Character | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -29,16 +60,26 @@ export default function ManageCharacters() {
 
   useEffect(() => {
     loadCharacters();
+    presetStorage.getDeckSettings().then(deckSettings => setDeckRetention(
+      Object.fromEntries(Object.entries(deckSettings).map(([category, settings]) => [category, settings.desiredRetention]))
+    ));
+    storage.getResponseTimes().then(setResponseTimes);
   }, []);
 
   useEffect(() => {
     filterCharacters();
-  }, [characters, selectedCategory, searchTerm]);
+  }, [characters, selectedCategory, searchTerm, showLikelyToForget, showLeeches, showSuspended, desiredRetention, deckRetention, schedules]);
 
   const loadCharacters = async () => {
     setIsLoading(true);
     try {
-      const allCharacters = await storage.getCharacters();
+      const [allCharacters, settings] = await Promise.all([
+        storage.getCharacters(),
+        settingsStorage.getSettings()
+      ]);
+      const directed = await storage.applyDirection(allCharacters, settings.cardDirection);
+      setDesiredRetention(settings.desiredRetention);
+      setSchedules(Object.fromEntries(directed.map(char => [char.id, char])));
       setCharacters(allCharacters);
     } catch (error) {
       console.error('Failed to load characters:', error);
@@ -47,6 +88,11 @@ export default function ManageCharacters() {
     }
   };
 
+  // Schedule and recall are shown for the direction the user studies in
+  const scheduleOf = (character: Character) => schedules[character.id] ?? character;
+
+  const retentionFor = (category: string) => deckRetention[category] ?? desiredRetention;
+
   const filterCharacters = () => {
     let filtered = characters;
 
@@ -66,10 +112,41 @@ export default function ManageCharacters() {
       );
     }
 
+    // Only cards whose predicted recall has dropped below their category's target,
+    // weakest first
+    if (showLikelyToForget) {
+      filtered = filtered
+        .filter(char => {
+          const recall = scheduler.retrievability(scheduleOf(char));
+          return recall !== null && recall < retentionFor(char.category);
+        })
+        .sort((a, b) => scheduler.retrievability(scheduleOf(a)) - scheduler.retrievability(scheduleOf(b)));
+    }
+
+    // Leeches only, most lapses first
+    if (showLeeches) {
+      filtered = filtered
+        .filter(char => char.isLeech)
+        .sort((a, b) => b.lapses - a.lapses);
+    }
+
+    // Suspended cards only
+    if (showSuspended) {
+      filtered = filtered.filter(char => char.suspended);
+    }
+
     setFilteredCharacters(filtered);
   };
 
-  const handleSaveCharacter = async (characterData: Omit<Character, 'id' | 'score' | 'attempts' | 'correctCount' | 'lastReviewed'>) => {
+  // Average time to flip and to answer, e.g. "2.1s / 3.4s"
+  const formatResponseTime = (characterId: string) => {
+    const stats = responseTimes[characterId];
+    if (!stats) return 'N/A';
+    const flip = stats.averageFlipMs !== null ? formatSeconds(stats.averageFlipMs) : 'N/A';
+    return `${flip} / ${formatSeconds(stats.averageAnswerMs)}`;
+  };
+
+  const handleSaveCharacter = async (characterData: NewCharacter) => {
     try {
       if (editingCharacter) {
         await storage.updateCharacter(editingCharacter.id, characterData);
@@ -101,6 +178,42 @@ export default function ManageCharacters() {
     }
   };
 
+  const handleToggleSuspended = async (character: Character) => {
+    try {
+      if (character.suspended) {
+        await storage.unsuspendCharacter(character.id);
+      } else {
+        await storage.suspendCharacter(character.id);
+      }
+      await loadCharacters();
+    } catch (error) {
+      console.error('Failed to update suspension:', error);
+    }
+  };
+
+  const handleToggleBuried = async (character: Character) => {
+    try {
+      if (scheduler.isBuried(character)) {
+        await storage.unburyCharacter(character.id);
+      } else {
+        await storage.buryCharacter(character.id);
+      }
+      await loadCharacters();
+    } catch (error) {
+      console.error('Failed to update burial:', error);
+    }
+  };
+
+  // Give a rewritten leech a fresh start
+  const handleResetLeech = async (character: Character) => {
+    try {
+      await storage.updateCharacter(character.id, { isLeech: false, lapses: 0, suspended: false });
+      await loadCharacters();
+    } catch (error) {
+      console.error('Failed to reset leech:', error);
+    }
+  };
+
   const handleCancelForm = () => {
     setShowForm(false);
     setEditingCharacter(null);
@@ -114,6 +227,9 @@ export default function ManageCharacters() {
     return acc;
   }, {} as Record<string, number>);
 
+  const leechCount = characters.filter(char => char.isLeech).length;
+  const suspendedCount = characters.filter(char => char.suspended).length;
+
   if (showForm) {
     return (
       <div className="p-6">
@@ -180,6 +296,30 @@ export default function ManageCharacters() {
               ))}
             </SelectContent>
           </Select>
+          <Button
+            variant={showLikelyToForget ? 'default' : 'outline'}
+            onClick={() => setShowLikelyToForget(!showLikelyToForget)}
+            className="min-h-[44px]"
+          >
+            <BrainCircuit className="mr-2" size={16} />
+            Likely to forget
+          </Button>
+          <Button
+            variant={showLeeches ? 'default' : 'outline'}
+            onClick={() => setShowLeeches(!showLeeches)}
+            className="min-h-[44px]"
+          >
+            <Bug className="mr-2" size={16} />
+            Leeches ({leechCount})
+          </Button>
+          <Button
+            variant={showSuspended ? 'default' : 'outline'}
+            onClick={() => setShowSuspended(!showSuspended)}
+            className="min-h-[44px]"
+          >
+            <PauseCircle className="mr-2" size={16} />
+            Suspended ({suspendedCount})
+          </Button>
         </div>
 
         {/* Results summary */}
@@ -212,10 +352,26 @@ export default function ManageCharacters() {
               <Card key={character.id} className="hover:shadow-lg transition-shadow">
                 <CardContent className="p-6">
                   <div className="text-center mb-4">
-                    <div className="text-4xl font-bold mb-2">{character.chinese}</div>
+                    <button
+                      type="button"
+                      className="text-4xl font-bold mb-2 hover:text-blue-600"
+                      title="Show stroke order"
+                      onClick={() => setDetailCharacter(character)}
+                    >
+                      {character.chinese}
+                    </button>
                     <div className="text-lg text-blue-600 mb-1">{character.pinyin}</div>
                     <div className="text-gray-700 mb-2">{character.english}</div>
                     <Badge variant="outline">{character.category}</Badge>
+                    {character.isLeech && (
+                      <Badge variant="destructive" className="ml-2">Leech</Badge>
+                    )}
+                    {character.suspended && (
+                      <Badge variant="secondary" className="ml-2">Suspended</Badge>
+                    )}
+                    {scheduler.isBuried(character) && (
+                      <Badge variant="secondary" className="ml-2">Buried</Badge>
+                    )}
                   </div>
                   
                   <div className="space-y-2 text-sm text-gray-600 mb-4">
@@ -242,8 +398,42 @@ export default function ManageCharacters() {
                         }
                       </span>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Lapses:</span>
+                      <span>{character.lapses}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Recall:</span>
+                      <span>
+                        {scheduler.isNew(scheduleOf(character))
+                          ? 'N/A'
+                          : `${Math.round(scheduler.retrievability(scheduleOf(character)) * 100)}%`
+                        }
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Avg flip / answer:</span>
+                      <span>{formatResponseTime(character.id)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Next review:</span>
+                      <span>
+                        {scheduler.isNew(scheduleOf(character))
+                          ? 'New'
+                          : scheduler.isDue(scheduleOf(character))
+                            ? 'Due now'
+                            : `in ${formatDistanceToNow(scheduleOf(character).dueAt)}`
+                        }
+                      </span>
+                    </div>
                   </div>
                   
+                  {showLeeches && (
+                    <div className="border-t pt-3 mb-4">
+                      <LeechHistory characterId={character.id} />
+                    </div>
+                  )}
+                  
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
@@ -254,6 +444,32 @@ export default function ManageCharacters() {
                       <Pencil className="mr-2" size={14} />
                       Edit
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleBuried(character)}
+                      title={scheduler.isBuried(character) ? 'Unbury' : 'Bury until tomorrow'}
+                    >
+                      {scheduler.isBuried(character) ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleSuspended(character)}
+                      title={character.suspended ? 'Unsuspend' : 'Suspend'}
+                    >
+                      {character.suspended ? <PlayCircle size={14} /> : <PauseCircle size={14} />}
+                    </Button>
+                    {character.isLeech && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResetLeech(character)}
+                        title="Clear leech flag and lapses"
+                      >
+                        <RotateCcw size={14} />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -269,6 +485,11 @@ export default function ManageCharacters() {
           </div>
         )}
       </div>
+
+      <CharacterDetailDialog
+        character={detailCharacter}
+        onOpenChange={(open) => !open && setDetailCharacter(null)}
+      />
     </div>
   );
 }
\ No newline at end of file